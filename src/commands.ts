@@ -1,5 +1,7 @@
 import * as vscode from 'vscode';
+import { registerBlockCommands } from './commands/blocks.js';
 import { registerCleaningCommands } from './commands/cleaning.js';
+import { registerSetOperationCommands } from './commands/set-operations.js';
 import { registerSortingCommands } from './commands/sorting.js';
 import { registerTransformationCommands } from './commands/transformation.js';
 import { registerUtilityCommands } from './commands/utility.js';
@@ -10,6 +12,8 @@ export function registerCommands(
 ): void {
     registerSortingCommands(context);
     registerCleaningCommands(context);
+    registerBlockCommands(context);
+    registerSetOperationCommands(context);
     registerTransformationCommands(context);
     registerUtilityCommands(context, updateContextCallback);
 }
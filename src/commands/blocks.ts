@@ -0,0 +1,96 @@
+import * as vscode from 'vscode';
+import { COMMANDS } from '../constants.js';
+import { applyLineAction } from '../utils/editor.js';
+import { createCommandFactory } from './factory.js';
+import { withBlocks, type BlockMode } from '../lib/blocks.js';
+import * as cleaner from '../lib/cleaner.js';
+import * as sorter from '../lib/sorter.js';
+
+interface BlockOperation extends vscode.QuickPickItem {
+    /** The line command this operation mirrors, also accepted as a command argument */
+    command: string;
+    processor: (lines: string[]) => string[];
+}
+
+const BLOCK_MODES: Array<vscode.QuickPickItem & { mode: BlockMode }> = [
+    { label: 'Paragraphs', description: 'separated by blank lines', mode: 'paragraph' },
+    {
+        label: 'Indented Blocks',
+        description: 'a line plus the indented lines below it',
+        mode: 'indent',
+    },
+];
+
+const BLOCK_OPERATIONS: BlockOperation[] = [
+    { label: 'Sort Ascending', command: 'lineKing.sort.asc', processor: sorter.sortAsc },
+    {
+        label: 'Sort Ascending (Case Insensitive)',
+        command: 'lineKing.sort.asc.insensitive',
+        processor: sorter.sortAscInsensitive,
+    },
+    {
+        label: 'Sort Ascending (Natural)',
+        command: 'lineKing.sort.asc.natural',
+        processor: sorter.sortNaturalAsc,
+    },
+    { label: 'Sort Descending', command: 'lineKing.sort.desc', processor: sorter.sortDesc },
+    {
+        label: 'Sort Descending (Case Insensitive)',
+        command: 'lineKing.sort.desc.insensitive',
+        processor: sorter.sortDescInsensitive,
+    },
+    {
+        label: 'Sort Descending (Natural)',
+        command: 'lineKing.sort.desc.natural',
+        processor: sorter.sortNaturalDesc,
+    },
+    { label: 'Reverse', command: 'lineKing.sort.reverse', processor: sorter.sortReverse },
+    { label: 'Shuffle', command: 'lineKing.sort.shuffle', processor: sorter.sortShuffle },
+    {
+        label: 'Remove Duplicates',
+        command: 'lineKing.tidy.removeDuplicates',
+        processor: cleaner.removeDuplicateLines,
+    },
+    {
+        label: 'Keep Only Duplicates',
+        command: 'lineKing.tidy.keepDuplicates',
+        processor: cleaner.keepOnlyDuplicates,
+    },
+];
+
+/**
+ * Registers the block-mode modifier, which runs an existing sorter or cleaner
+ * on paragraphs or indented blocks instead of single lines
+ *
+ * Accepts optional arguments for keybindings:
+ * `{ "mode": "paragraph" | "indent", "command": "lineKing.sort.asc" }`
+ */
+export function registerBlockCommands(context: vscode.ExtensionContext): void {
+    const factory = createCommandFactory(context);
+
+    factory.registerAsyncCommand({
+        id: COMMANDS.BLOCK_MODE,
+        handler: async (editor, args) => {
+            const options = (args ?? {}) as { mode?: BlockMode; command?: string };
+
+            let mode = BLOCK_MODES.find((item) => item.mode === options.mode)?.mode;
+            if (!mode) {
+                const picked = await vscode.window.showQuickPick(BLOCK_MODES, {
+                    placeHolder: 'What counts as a block?',
+                });
+                if (!picked) return;
+                mode = picked.mode;
+            }
+
+            let operation = BLOCK_OPERATIONS.find((item) => item.command === options.command);
+            if (!operation) {
+                operation = await vscode.window.showQuickPick(BLOCK_OPERATIONS, {
+                    placeHolder: 'Select the operation to apply to each block',
+                });
+                if (!operation) return;
+            }
+
+            await applyLineAction(editor, withBlocks(operation.processor, mode));
+        },
+    });
+}
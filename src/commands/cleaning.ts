@@ -1,7 +1,60 @@
 import * as vscode from 'vscode';
+import { COMMANDS } from '../constants.js';
+import { DEDUPE_FLAGS } from '../schemas/config.schema.js';
+import { configCache } from '../utils/config-cache.js';
+import { applyLineAction } from '../utils/editor.js';
+import {
+    pickDedupeOptions,
+    pickDelimiter,
+    pickDuplicateKey,
+    pickKeyedKeep,
+    promptColumn,
+} from '../utils/prompts.js';
 import { createCommandFactory } from './factory.js';
 import * as cleaner from '../lib/cleaner.js';
 
+const LINE_FILTER_COMMANDS = [
+    { id: COMMANDS.KEEP_MATCHING, keep: true, title: 'Keep Lines Matching' },
+    { id: COMMANDS.REMOVE_MATCHING, keep: false, title: 'Remove Lines Matching' },
+];
+
+/**
+ * Line filter from keybinding arguments; undefined without a pattern
+ */
+function lineFilterFromArgs(args: unknown): cleaner.LineFilter | undefined {
+    if (args === null || typeof args !== 'object') return undefined;
+    const raw = args as Partial<Record<keyof cleaner.LineFilter, unknown>>;
+    if (typeof raw.pattern !== 'string' || raw.pattern.length === 0) return undefined;
+    return {
+        pattern: raw.pattern,
+        regex: raw.regex === true,
+        caseSensitive: raw.caseSensitive === true,
+        invert: raw.invert === true,
+    };
+}
+
+/**
+ * Dedupe options from keybinding arguments, on top of the dedupe settings
+ * Returns undefined when no usable argument was given
+ */
+function dedupeOptionsFromArgs(args: unknown): cleaner.DedupeOptions | undefined {
+    if (args === null || typeof args !== 'object') return undefined;
+    const raw = args as Partial<Record<keyof cleaner.DedupeOptions, unknown>>;
+    const options: cleaner.DedupeOptions = { ...configCache.getDedupe() };
+    let given = false;
+    for (const flag of DEDUPE_FLAGS) {
+        if (typeof raw[flag] === 'boolean') {
+            options[flag] = raw[flag];
+            given = true;
+        }
+    }
+    if (raw.keep === 'first' || raw.keep === 'last') {
+        options.keep = raw.keep;
+        given = true;
+    }
+    return given ? options : undefined;
+}
+
 /**
  * Registers all cleaning/tidying commands
  */
@@ -12,12 +65,88 @@ export function registerCleaningCommands(context: vscode.ExtensionContext): void
         [
             { id: 'lineKing.tidy.removeBlank', processor: cleaner.removeBlankLines },
             { id: 'lineKing.tidy.condenseBlank', processor: cleaner.condenseBlankLines },
-            { id: 'lineKing.tidy.removeDuplicates', processor: cleaner.removeDuplicateLines },
+            {
+                id: 'lineKing.tidy.removeDuplicates',
+                processor: (lines) => cleaner.removeDuplicateLines(lines, configCache.getDedupe()),
+                streamProcessor: (lines) =>
+                    cleaner.removeDuplicateLinesStream(lines, configCache.getDedupe()),
+            },
             { id: 'lineKing.tidy.keepDuplicates', processor: cleaner.keepOnlyDuplicates },
+            {
+                id: 'lineKing.tidy.collapseSimilar',
+                processor: (lines) =>
+                    cleaner.collapseSimilarLines(
+                        lines,
+                        cleaner.parseVolatileMasks(configCache.getCollapseMasks()),
+                    ),
+            },
             { id: 'lineKing.tidy.trimTrailing', processor: cleaner.trimTrailingWhitespace },
             { id: 'lineKing.tidy.trimLeading', processor: cleaner.trimLeadingWhitespace },
             { id: 'lineKing.tidy.trimBoth', processor: cleaner.trimBothEnds },
         ],
         true,
     );
+
+    factory.registerAsyncCommand({
+        id: COMMANDS.REMOVE_DUPLICATES_BY,
+        handler: async (editor, args) => {
+            const options =
+                dedupeOptionsFromArgs(args) ?? (await pickDedupeOptions(configCache.getDedupe()));
+            if (!options) return;
+            await applyLineAction(editor, (lines) => cleaner.removeDuplicateLines(lines, options), {
+                expandSelection: true,
+                streamProcessor: (lines) => cleaner.removeDuplicateLinesStream(lines, options),
+            });
+        },
+    });
+
+    factory.registerAsyncCommand({
+        id: COMMANDS.REMOVE_DUPLICATES_BY_KEY,
+        handler: async (editor) => {
+            const key = await pickDuplicateKey();
+            if (key === undefined) return;
+            const keep = await pickKeyedKeep();
+            if (keep === undefined) return;
+
+            let value: cleaner.ColumnRef | undefined;
+            if (keep === 'max' || keep === 'min') {
+                const delimiter = 'delimiter' in key ? key.delimiter : await pickDelimiter();
+                if (delimiter === undefined) return;
+                const column = await promptColumn('Enter the number of the column to compare');
+                if (column === undefined) return;
+                value = { delimiter, column };
+            }
+
+            await applyLineAction(editor, (lines) =>
+                cleaner.removeDuplicatesByKey(lines, { key, keep, value }),
+            );
+        },
+    });
+
+    // Accepts { "pattern": string, "regex": boolean, "caseSensitive": boolean,
+    // "invert": boolean } as keybinding arguments, skipping the preview prompt
+    factory.registerAsyncCommands(
+        LINE_FILTER_COMMANDS.map(({ id, keep, title }) => ({
+            id,
+            handler: async (editor: vscode.TextEditor, args: unknown) => {
+                const { promptLineFilter } = await import('../lib/filter-preview.js');
+                const filter = lineFilterFromArgs(args) ?? (await promptLineFilter(editor, title));
+                if (!filter) return;
+
+                let matches: (line: string) => boolean;
+                try {
+                    matches = cleaner.createLineMatcher(filter);
+                } catch (e) {
+                    const message = e instanceof Error ? e.message : String(e);
+                    vscode.window.showErrorMessage(`Line King: Invalid pattern - ${message}`);
+                    return;
+                }
+                const kept = keep ? matches : (line: string) => !matches(line);
+                await applyLineAction(editor, (lines) => cleaner.keepLinesMatching(lines, kept), {
+                    expandSelection: true,
+                    streamProcessor: (lines) => cleaner.keepLinesMatchingStream(lines, kept),
+                });
+            },
+        })),
+    );
 }
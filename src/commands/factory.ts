@@ -1,5 +1,9 @@
 import * as vscode from 'vscode';
-import { applyLineAction, type LineActionOptions } from '../utils/editor.js';
+import {
+    applyLineAction,
+    type LineActionOptions,
+    type StreamLineProcessor,
+} from '../utils/editor.js';
 
 /**
  * Command configuration for line-based operations
@@ -16,6 +20,8 @@ interface CommandConfig {
      * Use async processors for lazy-loaded modules to avoid blocking the UI thread
      */
     processor: (lines: string[]) => string[] | Promise<string[]>;
+    /** Streaming variant of the processor for large texts, when it can't be found by name */
+    streamProcessor?: StreamLineProcessor;
     /** Whether to expand selection to full lines (default: true) */
     expandSelection?: boolean;
 }
@@ -26,8 +32,11 @@ interface CommandConfig {
 interface AsyncCommandConfig {
     /** Command identifier */
     id: string;
-    /** Async command handler */
-    handler: (editor: vscode.TextEditor) => Promise<void> | void;
+    /**
+     * Async command handler
+     * Extra arguments are those passed to executeCommand (e.g. keybinding `args`)
+     */
+    handler: (editor: vscode.TextEditor, ...args: unknown[]) => Promise<void> | void;
 }
 
 /**
@@ -54,6 +63,7 @@ export class CommandFactory {
     public registerLineCommand(config: CommandConfig): void {
         const options: LineActionOptions = {
             expandSelection: config.expandSelection ?? true,
+            streamProcessor: config.streamProcessor,
         };
 
         this.context.subscriptions.push(
@@ -106,9 +116,9 @@ export class CommandFactory {
      */
     public registerAsyncCommand(config: AsyncCommandConfig): void {
         this.context.subscriptions.push(
-            vscode.commands.registerTextEditorCommand(config.id, async (editor) => {
+            vscode.commands.registerTextEditorCommand(config.id, async (editor, _edit, ...args) => {
                 if (!editor || !editor.document) return;
-                return config.handler(editor);
+                return config.handler(editor, ...args);
             }),
         );
     }
@@ -0,0 +1,102 @@
+import * as vscode from 'vscode';
+import { COMMANDS } from '../constants.js';
+import type { SetOperationOutput } from '../schemas/config.schema.js';
+import { configCache } from '../utils/config-cache.js';
+import { getEOL, splitLinesByEOL } from '../utils/text-utils.js';
+import { createCommandFactory } from './factory.js';
+import type { SetOperation } from '../lib/set-operations.js';
+
+const SET_OPERATION_COMMANDS: Array<{ id: string; operation: SetOperation }> = [
+    { id: COMMANDS.SET_UNION, operation: 'union' },
+    { id: COMMANDS.SET_INTERSECTION, operation: 'intersection' },
+    { id: COMMANDS.SET_DIFFERENCE, operation: 'difference' },
+    { id: COMMANDS.SET_SYMMETRIC_DIFFERENCE, operation: 'symmetricDifference' },
+];
+
+/**
+ * Full lines a selection touches, or the whole document for an empty selection
+ */
+function linesRange(document: vscode.TextDocument, selection: vscode.Selection): vscode.Range {
+    if (selection.isEmpty) {
+        return new vscode.Range(
+            document.positionAt(0),
+            document.lineAt(document.lineCount - 1).range.end,
+        );
+    }
+    return new vscode.Range(
+        document.lineAt(selection.start.line).range.start,
+        document.lineAt(selection.end.line).range.end,
+    );
+}
+
+function isSetOperationOutput(value: unknown): value is SetOperationOutput {
+    return value === 'newDocument' || value === 'replaceSelection';
+}
+
+/**
+ * Combine two line sets: the first two selections, or the selection (or whole
+ * document) and the clipboard
+ * The result opens in a new untitled document or replaces the first set.
+ */
+async function runSetOperation(
+    editor: vscode.TextEditor,
+    operation: SetOperation,
+    output: SetOperationOutput,
+): Promise<void> {
+    const { applySetOperation, splitExternalLines } = await import('../lib/set-operations.js');
+    const document = editor.document;
+    const eol = getEOL(document);
+    const selections = editor.selections.filter((selection) => !selection.isEmpty);
+
+    const rangeA = linesRange(document, selections[0] ?? editor.selection);
+    const a = splitLinesByEOL(document.getText(rangeA), eol);
+    let b: string[];
+    if (selections.length >= 2) {
+        b = splitLinesByEOL(document.getText(linesRange(document, selections[1])), eol);
+    } else {
+        const clipboard = await vscode.env.clipboard.readText();
+        if (clipboard.length === 0) {
+            vscode.window.showInformationMessage(
+                'Line King: Select two sets of lines, or copy the second set to the clipboard',
+            );
+            return;
+        }
+        b = splitExternalLines(clipboard);
+    }
+
+    const result = applySetOperation(a, b, operation).join(eol);
+    if (output === 'replaceSelection') {
+        await editor.edit((editBuilder) => editBuilder.replace(rangeA, result));
+        return;
+    }
+    const resultDocument = await vscode.workspace.openTextDocument({
+        content: result,
+        language: document.languageId,
+    });
+    await vscode.window.showTextDocument(resultDocument);
+}
+
+/**
+ * Registers set operations between two line sets (union, intersection, A − B,
+ * symmetric difference)
+ *
+ * Accepts `{ "output": "newDocument" | "replaceSelection" }` as keybinding
+ * arguments, overriding the setOperationOutput setting
+ */
+export function registerSetOperationCommands(context: vscode.ExtensionContext): void {
+    const factory = createCommandFactory(context);
+
+    factory.registerAsyncCommands(
+        SET_OPERATION_COMMANDS.map(({ id, operation }) => ({
+            id,
+            handler: async (editor: vscode.TextEditor, args: unknown) => {
+                const output = (args as { output?: unknown } | undefined)?.output;
+                await runSetOperation(
+                    editor,
+                    operation,
+                    isSetOperationOutput(output) ? output : configCache.getSetOperationOutput(),
+                );
+            },
+        })),
+    );
+}
@@ -1,8 +1,77 @@
 import * as vscode from 'vscode';
-import { COMMANDS } from '../constants.js';
+import { COMMANDS, STATE_KEYS, TIMING } from '../constants.js';
+import { configCache } from '../utils/config-cache.js';
+import { applyLineAction } from '../utils/editor.js';
+import {
+    pickComparator,
+    pickDelimiter,
+    pickDirection,
+    pickInlineDelimiter,
+    pickJsonArraySort,
+    pickJsonValueOrder,
+    pickWordOrPathKey,
+    promptColumn,
+    promptCount,
+    promptSeed,
+    promptSortKeys,
+    promptSortSpec,
+    validateRegex,
+} from '../utils/prompts.js';
 import { createCommandFactory } from './factory.js';
+import { parseDelimiterName, type FieldDelimiter } from '../lib/fields.js';
+import {
+    sortLineItems,
+    type InlineDelimiter,
+    type InlineSortOptions,
+} from '../lib/inline-sorter.js';
+import type { JsonSortOptions } from '../lib/json-sorter.js';
+import { generateSeed } from '../lib/random.js';
 import * as sorter from '../lib/sorter.js';
 
+const INLINE_DELIMITERS: InlineDelimiter[] = ['auto', ',', '|', 'whitespace'];
+
+/**
+ * Sort the items within each selected line
+ * An empty selection stands for its whole line rather than the whole document
+ */
+async function applyInlineSort(
+    editor: vscode.TextEditor,
+    options: InlineSortOptions,
+): Promise<void> {
+    editor.selections = editor.selections.map((selection) => {
+        if (!selection.isEmpty) return selection;
+        const line = editor.document.lineAt(selection.active.line);
+        return new vscode.Selection(line.range.start, line.range.end);
+    });
+    if (editor.selections.every((selection) => selection.isEmpty)) return;
+
+    await applyLineAction(editor, (lines) => lines.map((line) => sortLineItems(line, options)), {
+        expandSelection: false,
+    });
+}
+
+/**
+ * JSON sort depth from a keybinding argument, falling back to the jsonSortDepth setting
+ */
+function jsonSortDepth(value: unknown): number {
+    return typeof value === 'number' && Number.isInteger(value) && value >= 0
+        ? value
+        : configCache.getJsonSortDepth();
+}
+
+/**
+ * Sort the selected JSON (or the whole document) by value
+ */
+async function applyJsonValueSort(
+    editor: vscode.TextEditor,
+    options: JsonSortOptions,
+): Promise<void> {
+    const { transformJsonSortByValue } = await import('../lib/transformer.js');
+    await applyLineAction(editor, (lines) => transformJsonSortByValue(lines, options), {
+        expandSelection: true,
+    });
+}
+
 export function registerSortingCommands(context: vscode.ExtensionContext): void {
     const factory = createCommandFactory(context);
 
@@ -26,6 +95,47 @@ export function registerSortingCommands(context: vscode.ExtensionContext): void
             },
             { id: 'lineKing.sort.length.asc', processor: sorter.sortLengthAsc },
             { id: 'lineKing.sort.length.desc', processor: sorter.sortLengthDesc },
+            { id: 'lineKing.sort.semver.asc', processor: sorter.sortSemVerAsc },
+            { id: 'lineKing.sort.semver.desc', processor: sorter.sortSemVerDesc },
+            { id: 'lineKing.sort.numeric.asc', processor: sorter.sortNumericAsc },
+            { id: 'lineKing.sort.numeric.desc', processor: sorter.sortNumericDesc },
+            {
+                id: 'lineKing.sort.date.asc',
+                processor: (lines) => sorter.sortDateAsc(lines, configCache.getDateOrder()),
+            },
+            {
+                id: 'lineKing.sort.date.desc',
+                processor: (lines) => sorter.sortDateDesc(lines, configCache.getDateOrder()),
+            },
+            { id: 'lineKing.sort.unique.asc', processor: sorter.sortUnique },
+            { id: 'lineKing.sort.unique.desc', processor: sorter.sortUniqueDesc },
+            { id: 'lineKing.sort.unique.asc.natural', processor: sorter.sortUniqueNatural },
+            { id: 'lineKing.sort.unique.desc.natural', processor: sorter.sortUniqueNaturalDesc },
+            {
+                id: 'lineKing.sort.unique.asc.insensitive',
+                processor: (lines) =>
+                    sorter.sortUniqueInsensitive(lines, configCache.getUniqueKeep()),
+            },
+            {
+                id: 'lineKing.sort.unique.desc.insensitive',
+                processor: (lines) =>
+                    sorter.sortUniqueInsensitiveDesc(lines, configCache.getUniqueKeep()),
+            },
+            {
+                id: 'lineKing.sort.unique.asc.ignoreWhitespace',
+                processor: (lines) =>
+                    sorter.sortUniqueIgnoreWhitespace(lines, configCache.getUniqueKeep()),
+            },
+            {
+                id: 'lineKing.sort.unique.desc.ignoreWhitespace',
+                processor: (lines) =>
+                    sorter.sortUniqueIgnoreWhitespaceDesc(lines, configCache.getUniqueKeep()),
+            },
+            { id: 'lineKing.sort.frequency', processor: (lines) => sorter.sortByFrequency(lines) },
+            {
+                id: 'lineKing.sort.frequency.counts',
+                processor: (lines) => sorter.sortByFrequency(lines, true),
+            },
             { id: 'lineKing.sort.reverse', processor: sorter.sortReverse },
             { id: 'lineKing.sort.ip', processor: sorter.sortIP },
             { id: 'lineKing.sort.shuffle', processor: sorter.sortShuffle },
@@ -33,6 +143,304 @@ export function registerSortingCommands(context: vscode.ExtensionContext): void
         true,
     );
 
+    factory.registerAsyncCommand({
+        id: COMMANDS.SORT_COLUMN,
+        handler: async (editor) => {
+            const delimiter = await pickDelimiter();
+            if (delimiter === undefined) return;
+            const column = await promptColumn();
+            if (column === undefined) return;
+            const comparator = await pickComparator();
+            if (comparator === undefined) return;
+            const direction = await pickDirection();
+            if (direction === undefined) return;
+            await applyLineAction(editor, (lines) =>
+                sorter.sortByColumn(lines, {
+                    delimiter,
+                    column,
+                    comparator,
+                    direction,
+                    dateOrder: configCache.getDateOrder(),
+                }),
+            );
+        },
+    });
+
+    factory.registerAsyncCommand({
+        id: COMMANDS.SORT_NUMERIC_NTH,
+        handler: async (editor) => {
+            const occurrence = await promptColumn('Which number in each line? (1 = first)');
+            if (occurrence === undefined) return;
+            const direction = await pickDirection();
+            if (direction === undefined) return;
+            await applyLineAction(editor, (lines) =>
+                direction === 'asc'
+                    ? sorter.sortNumericAsc(lines, occurrence)
+                    : sorter.sortNumericDesc(lines, occurrence),
+            );
+        },
+    });
+
+    factory.registerAsyncCommand({
+        id: COMMANDS.SORT_REGEX,
+        handler: async (editor) => {
+            const source = await vscode.window.showInputBox({
+                prompt: 'Enter a regular expression; lines sort by its first capture group',
+                placeHolder: 'e.g. ([A-Z]+-\\d+) or v(\\d+\\.\\d+)',
+                validateInput: validateRegex,
+            });
+            if (source === undefined) return;
+            const comparator = await pickComparator();
+            if (comparator === undefined) return;
+            const direction = await pickDirection();
+            if (direction === undefined) return;
+            const pattern = new RegExp(source);
+            await applyLineAction(editor, (lines) =>
+                sorter.sortByRegex(lines, {
+                    pattern,
+                    comparator,
+                    direction,
+                    dateOrder: configCache.getDateOrder(),
+                }),
+            );
+        },
+    });
+
+    // Accepts { "key": "words" | "lastword" | "extension" | "basename" | "depth",
+    // "direction": "asc" | "desc" } as keybinding arguments
+    factory.registerAsyncCommand({
+        id: COMMANDS.SORT_WORD_OR_PATH,
+        handler: async (editor, args) => {
+            const options = (args ?? {}) as { key?: unknown; direction?: unknown };
+            const key = sorter.isKeyComparatorName(options.key)
+                ? options.key
+                : await pickWordOrPathKey();
+            if (key === undefined) return;
+            const direction = sorter.isSortDirection(options.direction)
+                ? options.direction
+                : await pickDirection();
+            if (direction === undefined) return;
+            const comparator = sorter.getKeyComparator(key);
+            await applyLineAction(editor, (lines) =>
+                sorter.sortByKey(lines, (line) => line, comparator, direction),
+            );
+        },
+    });
+
+    /**
+     * Remember a seed so the next seeded command offers it, and show it so it can be shared
+     */
+    const useSeed = async (seed: string, action: string): Promise<void> => {
+        await context.globalState.update(STATE_KEYS.LAST_SHUFFLE_SEED, seed);
+        vscode.window.setStatusBarMessage(
+            `Line King: ${action} with seed "${seed}"`,
+            TIMING.STATUS_MESSAGE_MS,
+        );
+    };
+
+    // Accepts { "seed": "..." } as keybinding arguments
+    factory.registerAsyncCommand({
+        id: COMMANDS.SHUFFLE_SEEDED,
+        handler: async (editor, args) => {
+            const options = (args ?? {}) as { seed?: unknown };
+            const lastSeed = context.globalState.get<string>(STATE_KEYS.LAST_SHUFFLE_SEED);
+            const input =
+                typeof options.seed === 'string' ? options.seed : await promptSeed(lastSeed);
+            if (input === undefined) return;
+            const seed = input || generateSeed();
+            await applyLineAction(editor, (lines) => sorter.sortShuffleSeeded(lines, seed));
+            await useSeed(seed, 'Shuffled');
+        },
+    });
+
+    // Accepts { "count": 100, "order": "original" | "shuffled", "seed": "..." } as
+    // keybinding arguments; without a seed every run draws a new sample
+    factory.registerAsyncCommand({
+        id: COMMANDS.SAMPLE_LINES,
+        handler: async (editor, args) => {
+            const options = (args ?? {}) as { count?: unknown; order?: unknown; seed?: unknown };
+            const count =
+                typeof options.count === 'number' && options.count >= 1
+                    ? Math.floor(options.count)
+                    : await promptCount('How many lines should the sample keep?');
+            if (count === undefined) return;
+
+            let shuffled: boolean | undefined;
+            if (options.order === 'original' || options.order === 'shuffled') {
+                shuffled = options.order === 'shuffled';
+            } else {
+                const picked = await vscode.window.showQuickPick(
+                    [
+                        { label: 'Original Order', shuffled: false },
+                        { label: 'Shuffled', shuffled: true },
+                    ],
+                    { placeHolder: 'Keep sampled lines in which order?' },
+                );
+                shuffled = picked?.shuffled;
+            }
+            if (shuffled === undefined) return;
+
+            const seed = typeof options.seed === 'string' ? options.seed : generateSeed();
+            await applyLineAction(editor, (lines) =>
+                sorter.sampleLines(lines, count, { shuffled, seed }),
+            );
+            await useSeed(seed, `Sampled ${count} lines`);
+        },
+    });
+
+    factory.registerAsyncCommands([
+        {
+            id: COMMANDS.SORT_INLINE_ASC,
+            handler: (editor) =>
+                applyInlineSort(editor, {
+                    delimiter: 'auto',
+                    comparator: 'string',
+                    direction: 'asc',
+                }),
+        },
+        {
+            id: COMMANDS.SORT_INLINE_DESC,
+            handler: (editor) =>
+                applyInlineSort(editor, {
+                    delimiter: 'auto',
+                    comparator: 'string',
+                    direction: 'desc',
+                }),
+        },
+    ]);
+
+    // Accepts { "delimiter": "auto" | "," | "|" | "whitespace", "comparator": "natural",
+    // "direction": "asc" | "desc" } as keybinding arguments
+    factory.registerAsyncCommand({
+        id: COMMANDS.SORT_INLINE,
+        handler: async (editor, args) => {
+            const options = (args ?? {}) as {
+                delimiter?: unknown;
+                comparator?: unknown;
+                direction?: unknown;
+            };
+            const delimiter =
+                INLINE_DELIMITERS.find((d) => d === options.delimiter) ??
+                (await pickInlineDelimiter());
+            if (delimiter === undefined) return;
+            const comparator = sorter.isKeyComparatorName(options.comparator)
+                ? options.comparator
+                : await pickComparator();
+            if (comparator === undefined) return;
+            const direction = sorter.isSortDirection(options.direction)
+                ? options.direction
+                : await pickDirection();
+            if (direction === undefined) return;
+            await applyInlineSort(editor, {
+                delimiter,
+                comparator,
+                direction,
+                dateOrder: configCache.getDateOrder(),
+            });
+        },
+    });
+
+    factory.registerAsyncCommand({
+        id: COMMANDS.SORT_TREE,
+        handler: async (editor) => {
+            const comparator = await pickComparator();
+            if (comparator === undefined) return;
+            const direction = await pickDirection();
+            if (direction === undefined) return;
+            await applyLineAction(editor, (lines) =>
+                sorter.sortTree(lines, {
+                    comparator,
+                    direction,
+                    dateOrder: configCache.getDateOrder(),
+                    tabSize:
+                        typeof editor.options.tabSize === 'number'
+                            ? editor.options.tabSize
+                            : undefined,
+                }),
+            );
+        },
+    });
+
+    factory.registerAsyncCommands([
+        {
+            id: COMMANDS.SORT_MULTI_KEY,
+            handler: async (editor) => {
+                const method = await vscode.window.showQuickPick(
+                    [
+                        { label: 'Build Sort Keys...', wizard: true },
+                        {
+                            label: 'Enter Sort Spec...',
+                            description: 'e.g. 2:natural:asc,1:insensitive:desc',
+                            wizard: false,
+                        },
+                    ],
+                    { placeHolder: 'How do you want to define the sort keys?' },
+                );
+                if (!method) return;
+                const keys = method.wizard ? await promptSortKeys() : await promptSortSpec();
+                if (!keys) return;
+                const delimiter = await pickDelimiter();
+                if (delimiter === undefined) return;
+                await applyLineAction(editor, (lines) =>
+                    sorter.sortByKeys(lines, keys, delimiter, {
+                        dateOrder: configCache.getDateOrder(),
+                    }),
+                );
+            },
+        },
+        {
+            // Accepts the spec name as an argument so saved specs can be bound to keys
+            id: COMMANDS.SORT_SAVED_SPEC,
+            handler: async (editor, name) => {
+                const specs = configCache.getSortSpecs();
+                let saved = specs.find((spec) => spec.name === name);
+
+                if (typeof name === 'string' && !saved) {
+                    vscode.window.showErrorMessage(
+                        `Line King: No saved sort spec named "${name}".`,
+                    );
+                    return;
+                }
+                if (!saved) {
+                    if (specs.length === 0) {
+                        vscode.window.showInformationMessage(
+                            'Line King: No saved sort specs. Add them to the "lineKing.sortSpecs" setting.',
+                        );
+                        return;
+                    }
+                    const picked = await vscode.window.showQuickPick(
+                        specs.map((spec) => ({
+                            label: spec.name,
+                            description: `${spec.spec} (${spec.delimiter})`,
+                            spec,
+                        })),
+                        { placeHolder: 'Select a saved sort spec' },
+                    );
+                    if (!picked) return;
+                    saved = picked.spec;
+                }
+
+                let keys: sorter.SortKey[];
+                let delimiter: FieldDelimiter;
+                try {
+                    keys = sorter.parseSortSpec(saved.spec);
+                    delimiter = parseDelimiterName(saved.delimiter);
+                } catch (e) {
+                    const message = e instanceof Error ? e.message : String(e);
+                    vscode.window.showErrorMessage(
+                        `Line King: Saved sort spec "${saved.name}" is invalid - ${message}`,
+                    );
+                    return;
+                }
+                await applyLineAction(editor, (lines) =>
+                    sorter.sortByKeys(lines, keys, delimiter, {
+                        dateOrder: configCache.getDateOrder(),
+                    }),
+                );
+            },
+        },
+    ]);
+
     factory.registerAsyncCommand({
         id: COMMANDS.SORT_CSS,
         handler: async (editor) => {
@@ -41,21 +449,87 @@ export function registerSortingCommands(context: vscode.ExtensionContext): void
         },
     });
 
+    factory.registerAsyncCommand({
+        id: COMMANDS.SORT_IMPORTS,
+        handler: async (editor) => {
+            const { sortImports } = await import('../lib/import-sorter.js');
+            return await sortImports(editor);
+        },
+    });
+
     factory.registerAsyncCommands([
         {
-            id: 'lineKing.sort.json.key',
+            id: COMMANDS.SORT_MEMBERS,
+            handler: async (editor) => {
+                const { sortMembers } = await import('../lib/member-sorter.js');
+                return await sortMembers(editor);
+            },
+        },
+        {
+            id: COMMANDS.SORT_UNION,
             handler: async (editor) => {
+                const { sortUnionMembers } = await import('../lib/member-sorter.js');
+                return await sortUnionMembers(editor);
+            },
+        },
+    ]);
+
+    factory.registerAsyncCommands([
+        {
+            id: 'lineKing.sort.json.key',
+            handler: async (editor, args) => {
                 const { applyLineAction } = await import('../utils/editor.js');
                 const { transformJsonSortByKey } = await import('../lib/transformer.js');
-                await applyLineAction(editor, transformJsonSortByKey, { expandSelection: true });
+                const { findKeyOrderProfile } = await import('../lib/json-key-orders.js');
+                const depth = jsonSortDepth((args as { depth?: unknown } | undefined)?.depth);
+                const keyOrder = findKeyOrderProfile(
+                    editor.document.fileName,
+                    configCache.getJsonKeyOrders(),
+                )?.keys;
+                await applyLineAction(
+                    editor,
+                    (lines) => transformJsonSortByKey(lines, { depth, keyOrder }),
+                    { expandSelection: true },
+                );
             },
         },
         {
             id: 'lineKing.sort.json.value',
-            handler: async (editor) => {
-                const { applyLineAction } = await import('../utils/editor.js');
-                const { transformJsonSortByValue } = await import('../lib/transformer.js');
-                await applyLineAction(editor, transformJsonSortByValue, { expandSelection: true });
+            handler: async (editor, args) => {
+                await applyJsonValueSort(editor, {
+                    depth: jsonSortDepth((args as { depth?: unknown } | undefined)?.depth),
+                    valueOrder: configCache.getJsonValueOrder(),
+                    sortArrays: configCache.getJsonSortArrays(),
+                });
+            },
+        },
+        {
+            id: COMMANDS.SORT_JSON_VALUE_BY,
+            handler: async (editor, args) => {
+                const options = (args ?? {}) as {
+                    order?: unknown;
+                    keyPath?: unknown;
+                    arrays?: unknown;
+                    depth?: unknown;
+                };
+                const { isJsonValueOrder } = await import('../lib/json-sorter.js');
+                const valueOrder = isJsonValueOrder(options.order)
+                    ? options.order
+                    : await pickJsonValueOrder();
+                if (valueOrder === undefined) return;
+                const arrays =
+                    typeof options.keyPath === 'string' && options.keyPath.length > 0
+                        ? { sortArrays: true, arrayKeyPath: options.keyPath }
+                        : typeof options.arrays === 'boolean'
+                          ? { sortArrays: options.arrays }
+                          : await pickJsonArraySort();
+                if (arrays === undefined) return;
+
+                await applyJsonValueSort(editor, {
+                    depth: jsonSortDepth(options.depth),
+                    valueOrder,
+                    ...arrays,
+                });
             },
         },
     ]);
@@ -3,6 +3,26 @@ export const CONFIG = {
     JOIN_SEPARATOR: 'joinSeparator',
     CLEANUP_ON_SAVE: 'cleanupOnSave',
     CSS_SORT_STRATEGY: 'cssSortStrategy',
+    SORT_SPECS: 'sortSpecs',
+    DATE_ORDER: 'dateOrder',
+    UNIQUE_KEEP: 'uniqueKeep',
+    COLLATION_LOCALE: 'collation.locale',
+    COLLATION_SENSITIVITY: 'collation.sensitivity',
+    COLLATION_IGNORE_PUNCTUATION: 'collation.ignorePunctuation',
+    COLLATION_CASE_FIRST: 'collation.caseFirst',
+    COLLATION_BINARY: 'collation.binary',
+    JSON_SORT_DEPTH: 'jsonSortDepth',
+    JSON_KEY_ORDERS: 'jsonKeyOrders',
+    JSON_VALUE_ORDER: 'jsonValueOrder',
+    JSON_SORT_ARRAYS: 'jsonSortArrays',
+    DEDUPE_IGNORE_CASE: 'dedupe.ignoreCase',
+    DEDUPE_TRIM: 'dedupe.trim',
+    DEDUPE_COLLAPSE_WHITESPACE: 'dedupe.collapseWhitespace',
+    DEDUPE_NORMALIZE_UNICODE: 'dedupe.normalizeUnicode',
+    DEDUPE_IGNORE_PUNCTUATION: 'dedupe.ignorePunctuation',
+    DEDUPE_KEEP: 'dedupe.keep',
+    COLLAPSE_MASKS: 'collapseMasks',
+    SET_OPERATION_OUTPUT: 'setOperationOutput',
 } as const;
 
 export const CONTEXT_KEYS = {
@@ -10,10 +30,16 @@ export const CONTEXT_KEYS = {
     ALL_CHARS_VISIBLE: 'lineKing.whitespaceCharsVisible',
 };
 
+// Keys for values remembered between sessions (extension globalState)
+export const STATE_KEYS = {
+    LAST_SHUFFLE_SEED: 'lineKing.lastShuffleSeed',
+};
+
 // Timing constants
 export const TIMING = {
     SELECTION_DEBOUNCE_MS: 50,
     DECORATION_DEBOUNCE_MS: 150,
+    STATUS_MESSAGE_MS: 5000,
 };
 
 // Line ending detection constants
@@ -28,6 +54,31 @@ export const COMMANDS = {
     SHOW_ALL_CHARS: 'lineKing.util.showWhitespaceChars',
     HIDE_ALL_CHARS: 'lineKing.util.hideWhitespaceChars',
     SORT_CSS: 'lineKing.sort.css',
+    SORT_IMPORTS: 'lineKing.sort.imports',
+    SORT_MEMBERS: 'lineKing.sort.members',
+    SORT_UNION: 'lineKing.sort.union',
+    SORT_JSON_VALUE_BY: 'lineKing.sort.json.valueBy',
+    SORT_COLUMN: 'lineKing.sort.column',
+    SORT_MULTI_KEY: 'lineKing.sort.multiKey',
+    SORT_SAVED_SPEC: 'lineKing.sort.savedSpec',
+    SORT_REGEX: 'lineKing.sort.regex',
+    SORT_NUMERIC_NTH: 'lineKing.sort.numeric.nth',
+    SORT_TREE: 'lineKing.sort.tree',
+    SHUFFLE_SEEDED: 'lineKing.sort.shuffle.seeded',
+    SAMPLE_LINES: 'lineKing.sort.sample',
+    SORT_WORD_OR_PATH: 'lineKing.sort.wordOrPath',
+    SORT_INLINE_ASC: 'lineKing.sort.inline.asc',
+    SORT_INLINE_DESC: 'lineKing.sort.inline.desc',
+    SORT_INLINE: 'lineKing.sort.inline',
+    BLOCK_MODE: 'lineKing.blocks.apply',
+    REMOVE_DUPLICATES_BY: 'lineKing.tidy.removeDuplicatesBy',
+    REMOVE_DUPLICATES_BY_KEY: 'lineKing.tidy.removeDuplicatesByKey',
+    KEEP_MATCHING: 'lineKing.tidy.keepMatching',
+    REMOVE_MATCHING: 'lineKing.tidy.removeMatching',
+    SET_UNION: 'lineKing.sets.union',
+    SET_INTERSECTION: 'lineKing.sets.intersection',
+    SET_DIFFERENCE: 'lineKing.sets.difference',
+    SET_SYMMETRIC_DIFFERENCE: 'lineKing.sets.symmetricDifference',
     SPLIT_LINES: 'lineKing.manipulate.split',
     ALIGN_LINES: 'lineKing.manipulate.align',
     INSERT_SEQUENCE: 'lineKing.manipulate.sequence',
@@ -40,7 +91,21 @@ export const REGEX = {
     LINE_SPLIT: /\r?\n/,
     TRAILING_WHITESPACE: /\s+$/,
     LEADING_WHITESPACE: /^\s+/,
-    IP_ADDRESS: /\b(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})\b/,
+    // Address candidates (IPv6 with optional zone, or dotted IPv4), each with optional CIDR prefix
+    // Candidates are validated by parseIPAddress - this only finds address-shaped tokens
+    IP_ADDRESS:
+        /(?<![\w:.])(?:[0-9a-f]{0,4}:){2,7}(?:[0-9a-f]{1,4}|\d{1,3}(?:\.\d{1,3}){3})?(?:%[\w.-]+)?(?:\/\d{1,3})?(?![\w:])|(?<![\w.])\d{1,3}(?:\.\d{1,3}){3}(?:\/\d{1,3})?(?!\w|\.\d)/gi,
+    // major.minor.patch[-prerelease][+build], optionally prefixed with v, anywhere in a line
+    SEMVER: /(?<![\w.])v?(\d+)\.(\d+)\.(\d+)(?:-([0-9a-z-]+(?:\.[0-9a-z-]+)*))?(?:\+[0-9a-z-]+(?:\.[0-9a-z-]+)*)?(?!\.?\d)/i,
+    // Signed hex, thousands-separated, decimal and scientific numbers; a sign only counts
+    // when it doesn't follow a word (item-5 is 5, not -5)
+    NUMBER: /(?:(?<![\w.)])[-+])?(?<![\d.])(?<!\d,)(?:0x[0-9a-f]+|(?:\d{1,3}(?:,\d{3})+(?!\d)|\d+)(?:\.\d+)?(?:e[-+]?\d+)?|\.\d+(?:e[-+]?\d+)?)/gi,
+    // ISO 8601 and log-style date-times (2024-05-01T10:00:00.123Z, 2024-05-01 10:00:00,5) and bare times
+    TIMESTAMP:
+        /\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:[.,]\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?|(?<!\d)\d{1,2}:\d{2}:\d{2}(?:[.,]\d+)?(?!\d)/gi,
+    UUID: /\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi,
+    // 0x-prefixed hex, or 8+ hex digits including a digit (hashes, addresses, request IDs)
+    HEX_ID: /\b0x[0-9a-f]+\b|\b(?=[0-9a-f]*\d)[0-9a-f]{8,}\b/gi,
     CSS_PROPERTY: /^\s{2,}[-a-z]+(?:-[a-z0-9]+)*\s*:\s*[^:;{}]+;?\s*$/i,
     CSS_VALUE:
         /(?:[\d.]+(?:px|em|rem|%|vh|vw|ex|ch|cm|mm|in|pt|pc|deg|rad|turn|s|ms)?|#[0-9a-f]{3,8}|rgba?|hsla?|var\(|calc\(|url\(|['"]|\b(?:auto|none|inherit|initial|unset|normal|bold|italic|flex|block|inline|absolute|relative|fixed|hidden|visible|transparent|currentColor|red|blue|white|black)\b)/i,
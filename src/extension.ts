@@ -63,6 +63,13 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
                             await applyLineAction(editor, cleanerModule.trimTrailingWhitespace);
                         } else if (action === 'sortCssProperties') {
                             await cssSorterModule.sortCssProperties(editor);
+                        } else if (action === 'sortImports') {
+                            const importSorterModule = await import('./lib/import-sorter.js');
+                            if (
+                                importSorterModule.supportsImportSorting(event.document.languageId)
+                            ) {
+                                await importSorterModule.sortImports(editor);
+                            }
                         }
                     } catch (e) {
                         Logger.error('Error during save cleanup', e);
@@ -0,0 +1,37 @@
+import { describe, it } from 'bun:test';
+import * as assert from 'assert';
+import { withBlocks } from './blocks.js';
+import { removeDuplicateLines } from './cleaner.js';
+import { sortAsc, sortReverse } from './sorter.js';
+
+describe('Block Processing', () => {
+    it('should sort paragraphs as units', () => {
+        const input = ['', 'zeta', 'last letter', '', '', 'alpha', 'first letter', ''];
+        const expected = ['', 'alpha', 'first letter', '', '', 'zeta', 'last letter', ''];
+        assert.deepStrictEqual(withBlocks(sortAsc, 'paragraph')(input), expected);
+    });
+
+    it('should keep indented children with their header', () => {
+        const input = ['b:', '  b1', '', '  b2', 'a:', '  a1', 'c'];
+        const expected = ['c', 'a:', '  a1', 'b:', '  b1', '', '  b2'];
+        assert.deepStrictEqual(withBlocks(sortReverse, 'indent')(input), expected);
+    });
+
+    it('should only move blocks, keeping each gap where it was', () => {
+        assert.deepStrictEqual(withBlocks(sortAsc, 'indent')(['b', '', 'a', 'c']), [
+            'a',
+            '',
+            'b',
+            'c',
+        ]);
+        const input = ['c', '', '', 'b', '', 'a'];
+        const expected = ['a', '', '', 'b', '', 'c'];
+        assert.deepStrictEqual(withBlocks(sortAsc, 'paragraph')(input), expected);
+    });
+
+    it('should remove duplicate blocks', () => {
+        const input = ['[db]', 'host=a', '', '[cache]', 'ttl=5', '', '[db]', 'host=a'];
+        const expected = ['[db]', 'host=a', '', '[cache]', 'ttl=5'];
+        assert.deepStrictEqual(withBlocks(removeDuplicateLines, 'paragraph')(input), expected);
+    });
+});
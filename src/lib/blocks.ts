@@ -0,0 +1,125 @@
+/**
+ * Block-level processing
+ * Lets any line processor (sort, dedupe, reverse, shuffle, ...) work on
+ * multi-line blocks instead of single lines, without a block copy of each one.
+ * Pure logic only - no VS Code dependencies for unit testing compatibility.
+ */
+
+/**
+ * - paragraph: blocks are separated by blank lines
+ * - indent: a block is a header line plus the more-indented lines below it
+ */
+export type BlockMode = 'paragraph' | 'indent';
+
+type SyncLineProcessor = (lines: string[]) => string[];
+
+interface BlockLayout {
+    /** Blank lines before the first block, kept in place */
+    leading: string[];
+    blocks: string[][];
+    /** Blank lines between each block and the next, kept at their positions on output */
+    gaps: string[][];
+    /** Blank lines after the last block, kept in place */
+    trailing: string[];
+}
+
+/** Joins a block's lines into the single "line" the wrapped processor sees */
+const BLOCK_KEY_SEPARATOR = '\n';
+
+const isBlank = (line: string): boolean => line.trim().length === 0;
+
+const indentOf = (line: string): number => line.length - line.trimStart().length;
+
+/**
+ * Split lines into blocks, keeping surrounding blank lines aside
+ */
+export function splitBlocks(lines: string[], mode: BlockMode): BlockLayout {
+    let start = 0;
+    let end = lines.length;
+    while (start < end && isBlank(lines[start])) start++;
+    while (end > start && isBlank(lines[end - 1])) end--;
+
+    const layout: BlockLayout = {
+        leading: lines.slice(0, start),
+        blocks: [],
+        gaps: [],
+        trailing: lines.slice(end),
+    };
+
+    const body = lines.slice(start, end);
+    const baseIndent = body.reduce(
+        (min, line) => (isBlank(line) ? min : Math.min(min, indentOf(line))),
+        Infinity,
+    );
+    const startsBlock = (line: string, separated: boolean): boolean =>
+        mode === 'paragraph' ? separated : indentOf(line) <= baseIndent;
+
+    let current: string[] = [];
+    let pendingBlanks: string[] = [];
+
+    for (const line of body) {
+        if (isBlank(line)) {
+            pendingBlanks.push(line);
+            continue;
+        }
+        const separated = pendingBlanks.length > 0;
+        if (current.length > 0 && startsBlock(line, separated)) {
+            layout.blocks.push(current);
+            layout.gaps.push(pendingBlanks);
+            current = [];
+        } else {
+            // Blank lines inside an indented block belong to it
+            current.push(...pendingBlanks);
+        }
+        pendingBlanks = [];
+        current.push(line);
+    }
+
+    if (current.length > 0) {
+        layout.blocks.push(current);
+    }
+    return layout;
+}
+
+/**
+ * Wrap a line processor so it treats each block as one unit
+ * The processor sees one entry per block (its lines joined with \n), so sorting
+ * compares blocks by their first line, dedupe compares whole blocks, and so on.
+ * Entries the processor returns unchanged map back to their original blocks
+ *
+ * @param processor - Any sorter or cleaner taking and returning lines
+ * @param mode - How blocks are delimited
+ */
+export function withBlocks(processor: SyncLineProcessor, mode: BlockMode): SyncLineProcessor {
+    return (lines: string[]): string[] => {
+        const layout = splitBlocks(lines, mode);
+        if (layout.blocks.length === 0) {
+            return lines;
+        }
+
+        // Queue blocks per key so duplicate blocks map back one-to-one
+        const blocksByKey = new Map<string, string[][]>();
+        const keys = layout.blocks.map((block) => {
+            const key = block.join(BLOCK_KEY_SEPARATOR);
+            const queue = blocksByKey.get(key);
+            if (queue) {
+                queue.push(block);
+            } else {
+                blocksByKey.set(key, [block]);
+            }
+            return key;
+        });
+
+        const processed = processor(keys).map(
+            (key) => blocksByKey.get(key)?.shift() ?? key.split(BLOCK_KEY_SEPARATOR),
+        );
+
+        const result: string[] = [...layout.leading];
+        processed.forEach((block, i) => {
+            if (i > 0) result.push(...(layout.gaps[i - 1] ?? []));
+            result.push(...block);
+        });
+        result.push(...layout.trailing);
+        return result;
+    };
+}
@@ -0,0 +1,177 @@
+import { describe, it } from 'bun:test';
+import * as assert from 'assert';
+import * as cleaner from './cleaner.js';
+
+describe('Duplicate Removal', () => {
+    const options = (overrides: Partial<cleaner.DedupeOptions>): cleaner.DedupeOptions => ({
+        ...cleaner.DEFAULT_DEDUPE_OPTIONS,
+        ...overrides,
+    });
+
+    it('should compare raw lines by default', () => {
+        assert.deepStrictEqual(cleaner.removeDuplicateLines(['Foo ', 'foo', 'FOO', 'foo']), [
+            'Foo ',
+            'foo',
+            'FOO',
+        ]);
+    });
+
+    it('should ignore case and surrounding whitespace when asked', () => {
+        assert.deepStrictEqual(
+            cleaner.removeDuplicateLines(
+                ['Foo ', 'foo', 'FOO', 'bar'],
+                options({ ignoreCase: true, trim: true }),
+            ),
+            ['Foo ', 'bar'],
+        );
+    });
+
+    it('should collapse whitespace, normalize Unicode and ignore punctuation', () => {
+        assert.deepStrictEqual(
+            cleaner.removeDuplicateLines(
+                ['a  b', 'a\tb', 'Ｈｅｌｌｏ', 'Hello', 'hello, world!', 'hello world'],
+                options({
+                    collapseWhitespace: true,
+                    normalizeUnicode: true,
+                    ignorePunctuation: true,
+                }),
+            ),
+            ['a  b', 'Ｈｅｌｌｏ', 'hello, world!'],
+        );
+    });
+
+    it('should keep the last duplicate where it appears', () => {
+        assert.deepStrictEqual(
+            cleaner.removeDuplicateLines(
+                ['a', 'B', 'A', 'c', 'b'],
+                options({ ignoreCase: true, keep: 'last' }),
+            ),
+            ['A', 'c', 'b'],
+        );
+    });
+
+    it('should stream the same result', () => {
+        const lines = ['x', 'X ', 'y', 'x'];
+        const opts = options({ ignoreCase: true, trim: true });
+        assert.deepStrictEqual(
+            [...cleaner.removeDuplicateLinesStream(lines.values(), opts)],
+            cleaner.removeDuplicateLines(lines, opts),
+        );
+    });
+});
+
+describe('Duplicate Removal by Key', () => {
+    const lines = ['id,name,score', '1,Ann,10', '2,Bob,7', '1,Ann B.,12', '3,Cy,5', '2,Bobby,9'];
+    const key = { delimiter: ',' as const, column: 1 };
+    const value = { delimiter: ',' as const, column: 3 };
+
+    it('should keep the first or last line per column value', () => {
+        assert.deepStrictEqual(cleaner.removeDuplicatesByKey(lines, { key, keep: 'first' }), [
+            'id,name,score',
+            '1,Ann,10',
+            '2,Bob,7',
+            '3,Cy,5',
+        ]);
+        assert.deepStrictEqual(cleaner.removeDuplicatesByKey(lines, { key, keep: 'last' }), [
+            'id,name,score',
+            '1,Ann B.,12',
+            '3,Cy,5',
+            '2,Bobby,9',
+        ]);
+    });
+
+    it('should keep the line with the largest or smallest value', () => {
+        const input = ['a,3', 'a,x', 'b,1', 'a,10', 'b,1.5'];
+        assert.deepStrictEqual(
+            cleaner.removeDuplicatesByKey(input, {
+                key: { delimiter: ',', column: 1 },
+                keep: 'max',
+                value: { delimiter: ',', column: 2 },
+            }),
+            ['a,10', 'b,1.5'],
+        );
+        assert.deepStrictEqual(cleaner.removeDuplicatesByKey(lines, { key, keep: 'min', value }), [
+            'id,name,score',
+            '1,Ann,10',
+            '2,Bob,7',
+            '3,Cy,5',
+        ]);
+    });
+
+    it('should key on a regex capture and keep lines without a key', () => {
+        assert.deepStrictEqual(
+            cleaner.removeDuplicatesByKey(
+                ['user=7 login', '-- note --', 'user=8 login', 'user=7 logout'],
+                { key: { pattern: /user=(\d+)/ }, keep: 'first' },
+            ),
+            ['user=7 login', '-- note --', 'user=8 login'],
+        );
+    });
+});
+
+describe('Collapsing Similar Lines', () => {
+    const masks = cleaner.parseVolatileMasks(cleaner.DEFAULT_VOLATILE_MASKS);
+
+    it('should group lines differing only in volatile tokens', () => {
+        const lines = [
+            '2024-05-01T10:00:00.120Z GET /users/17 took 12ms',
+            '2024-05-01T10:00:01.004Z GET /users/9 took 140ms',
+            '2024-05-01 10:00:02,5 ERROR request 3f2a9c1e-7b4d-4e21-9a0c-2b5e8f7d6c11 failed',
+            '2024-05-01T10:00:03Z GET /users/4 took 7ms',
+            '10:00:04 ERROR request 0b8e7d6c-1a2b-4c3d-8e9f-001122334455 failed',
+            'segfault at 0x7ffd5a2c',
+            'segfault at 0x10',
+        ];
+        assert.deepStrictEqual(cleaner.collapseSimilarLines(lines, masks), [
+            '3 2024-05-01T10:00:00.120Z GET /users/17 took 12ms',
+            '2 2024-05-01 10:00:02,5 ERROR request 3f2a9c1e-7b4d-4e21-9a0c-2b5e8f7d6c11 failed',
+            '2 segfault at 0x7ffd5a2c',
+        ]);
+    });
+
+    it('should mask custom patterns and leave words alone', () => {
+        const custom = cleaner.parseVolatileMasks(['user=\\w+']);
+        assert.strictEqual(cleaner.maskVolatile('login user=ann ok', custom), 'login <*> ok');
+        assert.strictEqual(cleaner.maskVolatile('decade facade', masks), 'decade facade');
+        assert.strictEqual(cleaner.maskVolatile('commit 9fceb02d0ae5', masks), 'commit <hex>');
+        assert.throws(() => cleaner.parseVolatileMasks(['(']));
+        const [literal] = cleaner.parseVolatileMasks(['constructor']);
+        assert.strictEqual(cleaner.maskVolatile('new constructor()', [literal]), 'new <*>()');
+    });
+});
+
+describe('Filtering Lines', () => {
+    const lines = ['INFO start', 'error: disk full', 'ERROR: timeout', 'info done'];
+    const filter = (overrides: Partial<cleaner.LineFilter>): cleaner.LineFilter => ({
+        pattern: 'error',
+        regex: false,
+        caseSensitive: false,
+        invert: false,
+        ...overrides,
+    });
+
+    it('should match plain text ignoring case unless asked', () => {
+        assert.deepStrictEqual(
+            cleaner.keepLinesMatching(lines, cleaner.createLineMatcher(filter({}))),
+            ['error: disk full', 'ERROR: timeout'],
+        );
+        assert.deepStrictEqual(
+            cleaner.keepLinesMatching(
+                lines,
+                cleaner.createLineMatcher(filter({ caseSensitive: true, invert: true })),
+            ),
+            ['INFO start', 'ERROR: timeout', 'info done'],
+        );
+    });
+
+    it('should match regular expressions and invert', () => {
+        const matcher = cleaner.createLineMatcher(
+            filter({ pattern: '^info', regex: true, invert: true }),
+        );
+        assert.deepStrictEqual(cleaner.keepLinesMatching(lines, matcher), [
+            'error: disk full',
+            'ERROR: timeout',
+        ]);
+        assert.throws(() => cleaner.createLineMatcher(filter({ pattern: '(', regex: true })));
+    });
+});
@@ -4,6 +4,9 @@
  */
 
 import { REGEX } from '../constants.js';
+import type { UniqueKeep } from '../schemas/config.schema.js';
+import { getField, type FieldDelimiter } from './fields.js';
+import { findNumber } from './number-parser.js';
 
 function toArray<T>(iterator: Iterable<T>): T[] {
     return Array.from(iterator);
@@ -45,20 +48,237 @@ export function condenseBlankLines(lines: string[]): string[] {
     return toArray(condenseBlankLinesStream(lines));
 }
 
+/**
+ * Which differences Remove Duplicates ignores when comparing lines
+ * Lines still come out exactly as written; only the comparison is normalized.
+ */
+export interface DedupeOptions {
+    ignoreCase: boolean;
+    /** Ignore leading and trailing whitespace */
+    trim: boolean;
+    /** Treat each run of whitespace inside a line as a single space */
+    collapseWhitespace: boolean;
+    /** Compare the Unicode NFKC form, so full-width letters, ligatures and the like match */
+    normalizeUnicode: boolean;
+    /** Ignore punctuation and symbols */
+    ignorePunctuation: boolean;
+    /** Keep the first or the last of each set of duplicate lines */
+    keep: UniqueKeep;
+}
+
+export const DEFAULT_DEDUPE_OPTIONS: DedupeOptions = {
+    ignoreCase: false,
+    trim: false,
+    collapseWhitespace: false,
+    normalizeUnicode: false,
+    ignorePunctuation: false,
+    keep: 'first',
+};
+
+/**
+ * Normalized form of a line that duplicates are detected by
+ */
+export function dedupeKey(line: string, options: DedupeOptions): string {
+    let key = line;
+    if (options.normalizeUnicode) key = key.normalize('NFKC');
+    if (options.ignorePunctuation) key = key.replace(/[\p{P}\p{S}]/gu, '');
+    if (options.collapseWhitespace) key = key.replace(/\s+/g, ' ');
+    if (options.trim) key = key.trim();
+    if (options.ignoreCase) key = key.toLowerCase();
+    return key;
+}
+
+/**
+ * Drop duplicate lines in a single pass
+ * Keeping the first line streams survivors as they are found; keeping the last
+ * holds one line per distinct key and emits them in order of their last occurrence.
+ */
 export function* removeDuplicateLinesStream(
     lines: Iterable<string>,
+    options: DedupeOptions = DEFAULT_DEDUPE_OPTIONS,
 ): Generator<string, void, undefined> {
+    if (options.keep === 'last') {
+        const kept = new Map<string, string>();
+        for (const line of lines) {
+            const key = dedupeKey(line, options);
+            // Re-inserting moves the key to the end, so Map order follows last occurrences
+            kept.delete(key);
+            kept.set(key, line);
+        }
+        yield* kept.values();
+        return;
+    }
+
     const seen = new Set<string>();
     for (const line of lines) {
-        if (!seen.has(line)) {
-            seen.add(line);
+        const key = dedupeKey(line, options);
+        if (!seen.has(key)) {
+            seen.add(key);
             yield line;
         }
     }
 }
 
-export function removeDuplicateLines(lines: string[]): string[] {
-    return toArray(removeDuplicateLinesStream(lines));
+export function removeDuplicateLines(
+    lines: string[],
+    options: DedupeOptions = DEFAULT_DEDUPE_OPTIONS,
+): string[] {
+    return toArray(removeDuplicateLinesStream(lines, options));
+}
+
+/** A delimited column, e.g. the ID column of a CSV export */
+export interface ColumnRef {
+    delimiter: FieldDelimiter;
+    /** 1-based column index */
+    column: number;
+}
+
+/**
+ * What makes two lines duplicates: the same text in a column, or the same
+ * first capture group (or whole match, without groups) of a regular expression
+ */
+export type DuplicateKey = ColumnRef | { pattern: RegExp };
+
+/**
+ * Which line of each set of lines sharing a key survives
+ * max and min keep the line with the largest or smallest number in the value column
+ */
+export type KeyedKeep = 'first' | 'last' | 'max' | 'min';
+
+export interface KeyedDedupeOptions {
+    key: DuplicateKey;
+    keep: KeyedKeep;
+    /** Column holding the number that max and min compare */
+    value?: ColumnRef;
+}
+
+function readKey(line: string, key: DuplicateKey): string | undefined {
+    if ('pattern' in key) {
+        const match = key.pattern.exec(line);
+        return match ? (match[1] ?? match[0]) : undefined;
+    }
+    return getField(line, key.delimiter, key.column);
+}
+
+/**
+ * Drop lines whose key column or regex capture matches another line's
+ * Each survivor stays where it was; lines without a key are always kept.
+ * For max and min, lines without a number in the value column lose to lines
+ * with one, and ties go to the first line.
+ */
+export function removeDuplicatesByKey(lines: string[], options: KeyedDedupeOptions): string[] {
+    const { keep, value } = options;
+    const byValue = keep === 'max' || keep === 'min';
+    const readValue = (line: string): number | undefined => {
+        const field = value && getField(line, value.delimiter, value.column);
+        return field === undefined ? undefined : findNumber(field);
+    };
+    const beats = (candidate: number | undefined, current: number | undefined): boolean => {
+        if (candidate === undefined) return false;
+        if (current === undefined) return true;
+        return keep === 'max' ? candidate > current : candidate < current;
+    };
+
+    // Index and compared value of the surviving line for each key
+    const survivors = new Map<string, { index: number; value: number | undefined }>();
+    const kept = new Set<number>();
+    lines.forEach((line, index) => {
+        const key = readKey(line, options.key);
+        if (key === undefined) {
+            kept.add(index);
+            return;
+        }
+        const current = survivors.get(key);
+        const candidate = byValue ? readValue(line) : undefined;
+        if (!current || keep === 'last' || (byValue && beats(candidate, current.value))) {
+            survivors.set(key, { index, value: candidate });
+        }
+    });
+
+    for (const survivor of survivors.values()) {
+        kept.add(survivor.index);
+    }
+    return lines.filter((_, index) => kept.has(index));
+}
+
+/**
+ * Count how often each distinct line occurs
+ * Keys iterate in order of first occurrence
+ */
+export function countOccurrences(lines: Iterable<string>): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (const line of lines) {
+        counts.set(line, (counts.get(line) ?? 0) + 1);
+    }
+    return counts;
+}
+
+/**
+ * Prefix each line with its count, right-aligned like `uniq -c`
+ */
+export function prefixCounts(entries: Iterable<[string, number]>): string[] {
+    const list = [...entries];
+    const width = String(list.reduce((max, [, count]) => Math.max(max, count), 0)).length;
+    return list.map(([line, count]) => `${String(count).padStart(width)} ${line}`);
+}
+
+/** A volatile token and the placeholder it is replaced with before comparing */
+export interface VolatileMask {
+    pattern: RegExp;
+    placeholder: string;
+}
+
+/** Built-in masks for Collapse Similar Lines, by setting name */
+const VOLATILE_MASKS = new Map<string, RegExp>([
+    ['timestamp', REGEX.TIMESTAMP],
+    ['uuid', REGEX.UUID],
+    ['hex', REGEX.HEX_ID],
+    ['number', REGEX.NUMBER],
+]);
+
+export const DEFAULT_VOLATILE_MASKS = [...VOLATILE_MASKS.keys()];
+
+/**
+ * Resolve masks written in settings
+ * Accepts timestamp, uuid, hex or number; anything else is a regular expression.
+ * Masks apply in the given order, so list timestamps before numbers.
+ *
+ * @throws Error if a value is neither a known name nor a valid regular expression
+ */
+export function parseVolatileMasks(names: string[]): VolatileMask[] {
+    return names.map((name) => {
+        const builtIn = name.trim().toLowerCase();
+        const pattern = VOLATILE_MASKS.get(builtIn);
+        return pattern
+            ? { pattern, placeholder: `<${builtIn}>` }
+            : { pattern: new RegExp(name, 'g'), placeholder: '<*>' };
+    });
+}
+
+/**
+ * A line with its volatile tokens replaced by placeholders
+ */
+export function maskVolatile(line: string, masks: VolatileMask[]): string {
+    return masks.reduce((masked, mask) => masked.replace(mask.pattern, mask.placeholder), line);
+}
+
+/**
+ * Collapse lines that only differ in volatile tokens (timestamps, IDs, numbers)
+ * Outputs the first line of each group, prefixed with the group's size, in
+ * order of first occurrence.
+ */
+export function collapseSimilarLines(lines: string[], masks: VolatileMask[]): string[] {
+    const keys = lines.map((line) => maskVolatile(line, masks));
+    const counts = countOccurrences(keys);
+    const representatives = new Map<string, string>();
+    lines.forEach((line, i) => {
+        if (!representatives.has(keys[i])) {
+            representatives.set(keys[i], line);
+        }
+    });
+    return prefixCounts(
+        [...representatives].map(([key, line]): [string, number] => [line, counts.get(key)!]),
+    );
 }
 
 export function keepOnlyDuplicates(lines: string[]): string[] {
@@ -66,12 +286,7 @@ export function keepOnlyDuplicates(lines: string[]): string[] {
     // Pass 1: Count occurrences using a Map
     // Pass 2: Filter lines that appear more than once
     // This maintains original order and correctly handles duplicates
-    const counts = new Map<string, number>();
-
-    // First pass: count occurrences
-    for (const line of lines) {
-        counts.set(line, (counts.get(line) ?? 0) + 1);
-    }
+    const counts = countOccurrences(lines);
 
     // Second pass: keep only duplicates
     const result: string[] = [];
@@ -87,12 +302,8 @@ export function keepOnlyDuplicates(lines: string[]): string[] {
 export function* keepOnlyDuplicatesStream(
     lines: Iterable<string>,
 ): Generator<string, void, undefined> {
-    const allLines: string[] = [];
-    const counts = new Map<string, number>();
-    for (const line of lines) {
-        counts.set(line, (counts.get(line) || 0) + 1);
-        allLines.push(line);
-    }
+    const allLines = toArray(lines);
+    const counts = countOccurrences(allLines);
     for (const line of allLines) {
         if ((counts.get(line) || 0) > 1) {
             yield line;
@@ -100,6 +311,51 @@ export function* keepOnlyDuplicatesStream(
     }
 }
 
+/**
+ * What Keep / Remove Lines Matching looks for
+ * Plain text matches anywhere in a line; invert matches the lines that don't contain it.
+ */
+export interface LineFilter {
+    pattern: string;
+    regex: boolean;
+    caseSensitive: boolean;
+    invert: boolean;
+}
+
+/**
+ * Build a line test from a filter
+ *
+ * @throws SyntaxError if filter.regex is set and the pattern is not a valid regular expression
+ */
+export function createLineMatcher(filter: LineFilter): (line: string) => boolean {
+    let matches: (line: string) => boolean;
+    if (filter.regex) {
+        const pattern = new RegExp(filter.pattern, filter.caseSensitive ? '' : 'i');
+        matches = (line) => pattern.test(line);
+    } else if (filter.caseSensitive) {
+        matches = (line) => line.includes(filter.pattern);
+    } else {
+        const needle = filter.pattern.toLowerCase();
+        matches = (line) => line.toLowerCase().includes(needle);
+    }
+    return filter.invert ? (line) => !matches(line) : matches;
+}
+
+export function* keepLinesMatchingStream(
+    lines: Iterable<string>,
+    matches: (line: string) => boolean,
+): Generator<string, void, undefined> {
+    for (const line of lines) {
+        if (matches(line)) {
+            yield line;
+        }
+    }
+}
+
+export function keepLinesMatching(lines: string[], matches: (line: string) => boolean): string[] {
+    return toArray(keepLinesMatchingStream(lines, matches));
+}
+
 export function* trimTrailingWhitespaceStream(
     lines: Iterable<string>,
 ): Generator<string, void, undefined> {
@@ -0,0 +1,142 @@
+/**
+ * Shared text collation for every sorter
+ * Sorts compare text through these functions instead of localeCompare so the
+ * locale, sensitivity, punctuation and case-order settings (or plain code-point
+ * order) apply everywhere and give the same result on every machine.
+ * Pure logic only - no VS Code dependencies for unit testing compatibility.
+ */
+
+export type CollationSensitivity = 'base' | 'accent' | 'case' | 'variant';
+export type CollationCaseFirst = 'upper' | 'lower' | 'false';
+
+export interface CollationOptions {
+    /** BCP 47 locale such as `sv` or `de-u-co-phonebk`; empty uses the host locale */
+    locale: string;
+    /** Which differences count for case-sensitive sorts */
+    sensitivity: CollationSensitivity;
+    ignorePunctuation: boolean;
+    /** Whether upper or lower case sorts first; `false` uses the locale's default */
+    caseFirst: CollationCaseFirst;
+    /** Compare Unicode code points, ignoring all of the above */
+    binary: boolean;
+}
+
+export const DEFAULT_COLLATION: CollationOptions = {
+    locale: '',
+    sensitivity: 'variant',
+    ignorePunctuation: false,
+    caseFirst: 'false',
+    binary: false,
+};
+
+type Compare = (a: string, b: string) => number;
+
+let collation: CollationOptions = DEFAULT_COLLATION;
+let textCompare: Compare | undefined;
+let insensitiveCompare: Compare | undefined;
+let naturalCompare: Compare | undefined;
+
+/**
+ * Set the collation used by all sorters from now on
+ */
+export function configureCollation(options: CollationOptions): void {
+    collation = options;
+    textCompare = undefined;
+    insensitiveCompare = undefined;
+    naturalCompare = undefined;
+}
+
+function createCollator(options: Intl.CollatorOptions): Intl.Collator {
+    return new Intl.Collator(collation.locale || undefined, {
+        ignorePunctuation: collation.ignorePunctuation,
+        caseFirst: collation.caseFirst,
+        ...options,
+    });
+}
+
+/**
+ * Order strings by Unicode code point (not UTF-16 code unit, so astral
+ * characters sort after the Basic Multilingual Plane as they should)
+ */
+export function compareCodePoints(a: string, b: string): number {
+    const length = Math.min(a.length, b.length);
+    for (let i = 0; i < length; i++) {
+        const codeA = a.codePointAt(i)!;
+        const codeB = b.codePointAt(i)!;
+        if (codeA !== codeB) {
+            return codeA - codeB;
+        }
+        if (codeA > 0xffff) {
+            i++;
+        }
+    }
+    return a.length - b.length;
+}
+
+const DIGIT_RUN = /(\d+)/;
+
+/**
+ * Code-point order where runs of digits compare by numeric value (file2 < file10)
+ */
+function compareCodePointsNatural(a: string, b: string): number {
+    const partsA = a.split(DIGIT_RUN);
+    const partsB = b.split(DIGIT_RUN);
+    const length = Math.min(partsA.length, partsB.length);
+    for (let i = 0; i < length; i++) {
+        // split() with a capture group puts digit runs at odd indexes
+        const result =
+            i % 2 === 1
+                ? compareDigitRuns(partsA[i], partsB[i])
+                : compareCodePoints(partsA[i], partsB[i]);
+        if (result !== 0) {
+            return result;
+        }
+    }
+    return partsA.length - partsB.length;
+}
+
+function compareDigitRuns(a: string, b: string): number {
+    const trimmedA = a.replace(/^0+(?=\d)/, '');
+    const trimmedB = b.replace(/^0+(?=\d)/, '');
+    if (trimmedA.length !== trimmedB.length) {
+        return trimmedA.length - trimmedB.length;
+    }
+    return trimmedA < trimmedB ? -1 : trimmedA > trimmedB ? 1 : 0;
+}
+
+/**
+ * Case-sensitive comparison (replaces localeCompare)
+ */
+export function compareText(a: string, b: string): number {
+    if (!textCompare) {
+        textCompare = collation.binary
+            ? compareCodePoints
+            : createCollator({ sensitivity: collation.sensitivity }).compare;
+    }
+    return textCompare(a, b);
+}
+
+/**
+ * Comparison ignoring case (and accents, unless binary)
+ */
+export function compareTextInsensitive(a: string, b: string): number {
+    if (!insensitiveCompare) {
+        insensitiveCompare = collation.binary
+            ? (x, y) => compareCodePoints(x.toLowerCase(), y.toLowerCase())
+            : createCollator({ sensitivity: 'base' }).compare;
+    }
+    return insensitiveCompare(a, b);
+}
+
+/**
+ * Natural comparison: numbers inside text compare by value (item2 < item10)
+ * Ignores case unless binary, where letters compare by exact code point
+ */
+export function compareTextNatural(a: string, b: string): number {
+    if (!naturalCompare) {
+        naturalCompare = collation.binary
+            ? compareCodePointsNatural
+            : createCollator({ numeric: true, sensitivity: 'base' }).compare;
+    }
+    return naturalCompare(a, b);
+}
@@ -3,6 +3,8 @@
  * Designed for unit testing and pure JavaScript environments
  */
 
+import { compareText } from './collation.js';
+
 type SortStrategy = 'alphabetical' | 'length';
 
 interface ParsedLine {
@@ -59,7 +61,7 @@ export function sortDeclarations(
             return lengthA - lengthB;
         }
 
-        return a.property.localeCompare(b.property);
+        return compareText(a.property, b.property);
     });
 
     return sorted;
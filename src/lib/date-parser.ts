@@ -0,0 +1,215 @@
+/**
+ * Date and timestamp detection for chronological sorting
+ * Finds ISO 8601, RFC 2822, dd/mm/yyyy or mm/dd/yyyy, epoch seconds/milliseconds
+ * and bare time-of-day tokens. Times without a zone are treated as UTC so
+ * results don't depend on the machine's time zone.
+ * Pure logic only - no VS Code dependencies for unit testing compatibility.
+ */
+
+/** How to read an ambiguous numeric date such as 03/04/2024 */
+export type DateOrder = 'dmy' | 'mdy';
+
+const MS_PER_SECOND = 1000;
+const MS_PER_MINUTE = 60 * MS_PER_SECOND;
+const MONTHS_PER_YEAR = 12;
+const EPOCH_SECONDS_DIGITS = 10;
+
+const MONTH_NAMES = [
+    'jan',
+    'feb',
+    'mar',
+    'apr',
+    'may',
+    'jun',
+    'jul',
+    'aug',
+    'sep',
+    'oct',
+    'nov',
+    'dec',
+];
+
+const ZONE_OFFSETS_MINUTES: Record<string, number> = {
+    UT: 0,
+    UTC: 0,
+    GMT: 0,
+    Z: 0,
+    EST: -300,
+    EDT: -240,
+    CST: -360,
+    CDT: -300,
+    MST: -420,
+    MDT: -360,
+    PST: -480,
+    PDT: -420,
+};
+
+const ISO_DATE =
+    /(?<!\d)(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:[.,](\d+))?)?\s?(Z|[+-]\d{2}:?\d{2})?)?(?!\d)/i;
+const RFC_2822_DATE =
+    /(?<!\d)(\d{1,2})\s+(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\s+(\d{4})\s+(\d{2}):(\d{2})(?::(\d{2}))?(?:\s*([+-]\d{4}|UTC?|GMT|[ECMP][SD]T|Z)\b)?/i;
+const NUMERIC_DATE =
+    /(?<![\d/.-])(\d{1,2})([/.-])(\d{1,2})\2(\d{4})(?![\d/.-])(?:[ T,]+(\d{1,2}):(\d{2})(?::(\d{2}))?)?/;
+const EPOCH = /(?<![\d.])(\d{13}|\d{10})(?![\d.])/;
+const TIME_OF_DAY = /(?<![\d:])(\d{1,2}):(\d{2})(?::(\d{2})(?:[.,](\d+))?)?(?![\d:])/;
+
+interface Candidate {
+    index: number;
+    time: number;
+}
+
+function toMilliseconds(fraction: string | undefined): number {
+    return fraction ? Math.round(parseFloat(`0.${fraction}`) * MS_PER_SECOND) : 0;
+}
+
+function parseZoneOffset(zone: string | undefined): number | undefined {
+    if (!zone) {
+        return 0;
+    }
+    const named = ZONE_OFFSETS_MINUTES[zone.toUpperCase()];
+    if (named !== undefined) {
+        return named;
+    }
+    const match = zone.match(/^([+-])(\d{2}):?(\d{2})$/);
+    if (!match) {
+        return undefined;
+    }
+    const minutes = parseInt(match[2], 10) * 60 + parseInt(match[3], 10);
+    return match[1] === '-' ? -minutes : minutes;
+}
+
+/**
+ * Build a UTC timestamp from calendar parts, rejecting impossible dates like 31/02
+ */
+function buildTime(
+    year: number,
+    month: number,
+    day: number,
+    hours = 0,
+    minutes = 0,
+    seconds = 0,
+    milliseconds = 0,
+    offsetMinutes = 0,
+): number | undefined {
+    if (month < 1 || month > MONTHS_PER_YEAR || hours > 23 || minutes > 59 || seconds > 60) {
+        return undefined;
+    }
+    const time = Date.UTC(year, month - 1, day, hours, minutes, seconds, milliseconds);
+    if (new Date(time).getUTCDate() !== day) {
+        return undefined;
+    }
+    return time - offsetMinutes * MS_PER_MINUTE;
+}
+
+function parseIso(match: RegExpMatchArray): number | undefined {
+    const offset = parseZoneOffset(match[8]);
+    if (offset === undefined) {
+        return undefined;
+    }
+    return buildTime(
+        parseInt(match[1], 10),
+        parseInt(match[2], 10),
+        parseInt(match[3], 10),
+        match[4] ? parseInt(match[4], 10) : 0,
+        match[5] ? parseInt(match[5], 10) : 0,
+        match[6] ? parseInt(match[6], 10) : 0,
+        toMilliseconds(match[7]),
+        offset,
+    );
+}
+
+function parseRfc2822(match: RegExpMatchArray): number | undefined {
+    const offset = parseZoneOffset(match[7]);
+    if (offset === undefined) {
+        return undefined;
+    }
+    return buildTime(
+        parseInt(match[3], 10),
+        MONTH_NAMES.indexOf(match[2].toLowerCase()) + 1,
+        parseInt(match[1], 10),
+        parseInt(match[4], 10),
+        parseInt(match[5], 10),
+        match[6] ? parseInt(match[6], 10) : 0,
+        0,
+        offset,
+    );
+}
+
+function parseNumericDate(match: RegExpMatchArray, order: DateOrder): number | undefined {
+    const first = parseInt(match[1], 10);
+    const second = parseInt(match[3], 10);
+    // Only fall back to the configured order when both readings are possible
+    let dayFirst = order === 'dmy';
+    if (first > MONTHS_PER_YEAR) {
+        dayFirst = true;
+    } else if (second > MONTHS_PER_YEAR) {
+        dayFirst = false;
+    }
+    return buildTime(
+        parseInt(match[4], 10),
+        dayFirst ? second : first,
+        dayFirst ? first : second,
+        match[5] ? parseInt(match[5], 10) : 0,
+        match[6] ? parseInt(match[6], 10) : 0,
+        match[7] ? parseInt(match[7], 10) : 0,
+    );
+}
+
+function parseEpoch(match: RegExpMatchArray): number {
+    const value = parseInt(match[1], 10);
+    return match[1].length === EPOCH_SECONDS_DIGITS ? value * MS_PER_SECOND : value;
+}
+
+function parseTimeOfDay(match: RegExpMatchArray): number | undefined {
+    const hours = parseInt(match[1], 10);
+    const minutes = parseInt(match[2], 10);
+    const seconds = match[3] ? parseInt(match[3], 10) : 0;
+    if (hours > 23 || minutes > 59 || seconds > 60) {
+        return undefined;
+    }
+    return ((hours * 60 + minutes) * 60 + seconds) * MS_PER_SECOND + toMilliseconds(match[4]);
+}
+
+function addCandidate(
+    candidates: Candidate[],
+    match: RegExpMatchArray | null,
+    parse: (match: RegExpMatchArray) => number | undefined,
+): void {
+    if (!match) {
+        return;
+    }
+    const time = parse(match);
+    if (time !== undefined) {
+        candidates.push({ index: match.index ?? 0, time });
+    }
+}
+
+/**
+ * Find the first date or timestamp in a line
+ *
+ * @param line - Text to search
+ * @param order - How to read ambiguous numeric dates (03/04/2024)
+ * @returns Milliseconds since the Unix epoch (or since midnight for a bare
+ *          time of day, used only when the line has no date), or undefined
+ */
+export function findTimestamp(line: string, order: DateOrder): number | undefined {
+    const candidates: Candidate[] = [];
+    addCandidate(candidates, line.match(ISO_DATE), parseIso);
+    addCandidate(candidates, line.match(RFC_2822_DATE), parseRfc2822);
+    addCandidate(candidates, line.match(NUMERIC_DATE), (m) => parseNumericDate(m, order));
+    addCandidate(candidates, line.match(EPOCH), parseEpoch);
+
+    if (candidates.length === 0) {
+        const time = line.match(TIME_OF_DAY);
+        return time ? parseTimeOfDay(time) : undefined;
+    }
+
+    // The leftmost token wins; on a tie the more specific format (earlier above) wins
+    let best = candidates[0];
+    for (const candidate of candidates) {
+        if (candidate.index < best.index) {
+            best = candidate;
+        }
+    }
+    return best.time;
+}
@@ -0,0 +1,116 @@
+/**
+ * Delimited field extraction utilities
+ * Splits CSV/TSV/log lines into fields, honouring quoted CSV values.
+ * Pure logic only - no VS Code dependencies for unit testing compatibility.
+ */
+
+/**
+ * Field delimiter: a single separator character, 'whitespace' for runs of
+ * whitespace, or a regular expression for anything more complex
+ */
+export type FieldDelimiter = ',' | '\t' | ';' | '|' | 'whitespace' | RegExp;
+
+const QUOTE = '"';
+
+/**
+ * Split a line on a single-character delimiter, treating double-quoted
+ * fields as atomic (RFC 4180 style, `""` escapes a quote inside a field)
+ */
+function splitQuoted(line: string, delimiter: string): string[] {
+    const fields: string[] = [];
+    let current = '';
+    let inQuotes = false;
+    let i = 0;
+
+    while (i < line.length) {
+        const char = line[i];
+
+        if (inQuotes) {
+            if (char === QUOTE) {
+                if (line[i + 1] === QUOTE) {
+                    current += QUOTE;
+                    i += 2;
+                    continue;
+                }
+                inQuotes = false;
+            } else {
+                current += char;
+            }
+        } else if (char === QUOTE && current.trim().length === 0) {
+            // Opening quote - any whitespace before it is padding, not content
+            current = '';
+            inQuotes = true;
+        } else if (char === delimiter) {
+            fields.push(current);
+            current = '';
+        } else {
+            current += char;
+        }
+        i++;
+    }
+
+    fields.push(current);
+    return fields;
+}
+
+/**
+ * Split a line into fields using the given delimiter
+ *
+ * @param line - The line to split
+ * @param delimiter - Separator character, 'whitespace', or a RegExp
+ * @returns Array of field values (quotes removed for quoted CSV fields)
+ */
+export function splitFields(line: string, delimiter: FieldDelimiter): string[] {
+    if (delimiter instanceof RegExp) {
+        return line.split(delimiter);
+    }
+    if (delimiter === 'whitespace') {
+        const trimmed = line.trim();
+        return trimmed.length === 0 ? [] : trimmed.split(/\s+/);
+    }
+    return splitQuoted(line, delimiter);
+}
+
+/**
+ * Get a single field from a line
+ *
+ * @param line - The line to read from
+ * @param delimiter - Field delimiter
+ * @param column - 1-based column index
+ * @returns The field value, or undefined if the line has fewer columns
+ */
+export function getField(
+    line: string,
+    delimiter: FieldDelimiter,
+    column: number,
+): string | undefined {
+    const fields = splitFields(line, delimiter);
+    return column >= 1 && column <= fields.length ? fields[column - 1] : undefined;
+}
+
+const NAMED_DELIMITERS = new Map<string, FieldDelimiter>([
+    ['comma', ','],
+    ['tab', '\t'],
+    ['whitespace', 'whitespace'],
+    ['semicolon', ';'],
+    ['pipe', '|'],
+]);
+
+/**
+ * Resolve a delimiter written in settings
+ * Accepts comma, tab, whitespace, semicolon or pipe; anything else is a regular expression
+ *
+ * @throws Error if the value is neither a known name nor a valid regular expression
+ */
+export function parseDelimiterName(name: string): FieldDelimiter {
+    const named = NAMED_DELIMITERS.get(name.trim().toLowerCase());
+    if (named !== undefined) {
+        return named;
+    }
+    try {
+        return new RegExp(name);
+    } catch (e) {
+        const message = e instanceof Error ? e.message : 'Invalid regular expression';
+        throw new Error(`Invalid delimiter "${name}": ${message}`);
+    }
+}
@@ -0,0 +1,125 @@
+import * as vscode from 'vscode';
+import { createLineMatcher, type LineFilter } from './cleaner.js';
+
+type FilterFlag = 'regex' | 'caseSensitive' | 'invert';
+
+interface FlagButton extends vscode.QuickInputButton {
+    flag: FilterFlag;
+}
+
+const FLAGS: Array<{ flag: FilterFlag; icon: string; label: string }> = [
+    { flag: 'regex', icon: 'regex', label: 'Regular Expression' },
+    { flag: 'caseSensitive', icon: 'case-sensitive', label: 'Match Case' },
+    { flag: 'invert', icon: 'arrow-swap', label: 'Invert Match' },
+];
+
+/**
+ * Whether a line is filtered: one touched by a selection, or any line without a selection
+ */
+function lineScope(editor: vscode.TextEditor): (line: number) => boolean {
+    const selections = editor.selections.filter((selection) => !selection.isEmpty);
+    if (selections.length === 0) {
+        return () => true;
+    }
+    return (line) =>
+        selections.some((selection) => line >= selection.start.line && line <= selection.end.line);
+}
+
+/**
+ * Ranges of the visible lines in scope that a matcher accepts
+ * Only visible lines are checked, so typing stays fast in large files
+ */
+function matchingRanges(
+    editor: vscode.TextEditor,
+    inScope: (line: number) => boolean,
+    matches: (line: string) => boolean,
+): vscode.Range[] {
+    const document = editor.document;
+    const ranges: vscode.Range[] = [];
+    for (const visibleRange of editor.visibleRanges) {
+        const endLine = Math.min(visibleRange.end.line, document.lineCount - 1);
+        for (let i = visibleRange.start.line; i <= endLine; i++) {
+            const line = document.lineAt(i);
+            if (inScope(i) && matches(line.text)) {
+                ranges.push(line.range);
+            }
+        }
+    }
+    return ranges;
+}
+
+/**
+ * Ask for a line filter, highlighting the lines it matches as the user types
+ * Buttons toggle regular expression, case-sensitive and inverted matching.
+ * Resolves to undefined when cancelled; the highlights are removed either way.
+ */
+export function promptLineFilter(
+    editor: vscode.TextEditor,
+    title: string,
+): Promise<LineFilter | undefined> {
+    const filter: LineFilter = { pattern: '', regex: false, caseSensitive: false, invert: false };
+    const inScope = lineScope(editor);
+    const decoration = vscode.window.createTextEditorDecorationType({
+        isWholeLine: true,
+        backgroundColor: new vscode.ThemeColor('editor.findMatchHighlightBackground'),
+        overviewRulerColor: new vscode.ThemeColor('editorOverviewRuler.findMatchForeground'),
+        overviewRulerLane: vscode.OverviewRulerLane.Center,
+    });
+    const input = vscode.window.createInputBox();
+    input.title = title;
+    input.placeholder = 'Text to match';
+
+    const refresh = () => {
+        input.buttons = FLAGS.map(
+            ({ flag, icon, label }): FlagButton => ({
+                flag,
+                iconPath: new vscode.ThemeIcon(icon),
+                tooltip: `${label}: ${filter[flag] ? 'On' : 'Off'}`,
+            }),
+        );
+        const enabled = FLAGS.filter(({ flag }) => filter[flag]).map(({ label }) => label);
+        input.prompt = enabled.length > 0 ? enabled.join(', ') : 'Plain text, ignoring case';
+
+        let matches: ((line: string) => boolean) | undefined;
+        input.validationMessage = undefined;
+        if (filter.pattern.length > 0) {
+            try {
+                matches = createLineMatcher(filter);
+            } catch (e) {
+                input.validationMessage =
+                    e instanceof Error ? e.message : 'Invalid regular expression';
+            }
+        }
+        editor.setDecorations(decoration, matches ? matchingRanges(editor, inScope, matches) : []);
+    };
+
+    return new Promise((resolve) => {
+        const disposables = [
+            input.onDidChangeValue((value) => {
+                filter.pattern = value;
+                refresh();
+            }),
+            input.onDidTriggerButton((button) => {
+                const { flag } = button as FlagButton;
+                filter[flag] = !filter[flag];
+                refresh();
+            }),
+            vscode.window.onDidChangeTextEditorVisibleRanges((event) => {
+                if (event.textEditor === editor) refresh();
+            }),
+            input.onDidAccept(() => {
+                if (filter.pattern.length === 0 || input.validationMessage) return;
+                resolve({ ...filter });
+                input.hide();
+            }),
+            input.onDidHide(() => {
+                resolve(undefined);
+                disposables.forEach((disposable) => disposable.dispose());
+                decoration.dispose();
+                input.dispose();
+            }),
+        ];
+        refresh();
+        input.show();
+    });
+}
@@ -0,0 +1,272 @@
+/**
+ * Core TS/JS import sorting logic without VS Code dependencies
+ * Sorts each run of import declarations by module specifier, grouped as
+ * built-ins, packages, then relative paths, and sorts the named specifiers
+ * inside braces. Side-effect imports (`import './polyfill'`) run code, so they
+ * stay where they are and imports are only sorted between them.
+ * Pure logic only - no VS Code dependencies for unit testing compatibility.
+ */
+
+import { compareText, compareTextInsensitive } from './collation.js';
+import { sortListItems } from './inline-sorter.js';
+
+type ImportGroup = 'builtin' | 'package' | 'relative';
+
+const GROUP_ORDER: ImportGroup[] = ['builtin', 'package', 'relative'];
+
+interface ImportStatement {
+    /** Comment lines directly above the import, then the import's own lines */
+    lines: string[];
+    specifier: string;
+    group: ImportGroup;
+    isType: boolean;
+    isSideEffect: boolean;
+}
+
+/**
+ * Node.js built-in modules importable without the `node:` prefix
+ * Hardcoded rather than read from `node:module`, which the web extension host lacks
+ */
+const BUILTIN_MODULES = new Set([
+    'assert',
+    'assert/strict',
+    'async_hooks',
+    'buffer',
+    'child_process',
+    'cluster',
+    'console',
+    'constants',
+    'crypto',
+    'dgram',
+    'diagnostics_channel',
+    'dns',
+    'dns/promises',
+    'domain',
+    'events',
+    'fs',
+    'fs/promises',
+    'http',
+    'http2',
+    'https',
+    'inspector',
+    'inspector/promises',
+    'module',
+    'net',
+    'os',
+    'path',
+    'path/posix',
+    'path/win32',
+    'perf_hooks',
+    'process',
+    'punycode',
+    'querystring',
+    'readline',
+    'readline/promises',
+    'repl',
+    'stream',
+    'stream/consumers',
+    'stream/promises',
+    'stream/web',
+    'string_decoder',
+    'sys',
+    'timers',
+    'timers/promises',
+    'tls',
+    'trace_events',
+    'tty',
+    'url',
+    'util',
+    'util/types',
+    'v8',
+    'vm',
+    'wasi',
+    'worker_threads',
+    'zlib',
+]);
+
+const IMPORT_START = /^\s*import(?:\s|\{|\*|['"])/;
+const SIDE_EFFECT_IMPORT = /^\s*import\s*(['"])([^'"]+)\1\s*;?\s*(?:\/\/.*)?$/;
+const FROM_CLAUSE = /\bfrom\s*(['"])([^'"]+)\1\s*;?\s*(?:\/\/.*)?$/;
+const TYPE_IMPORT = /^\s*import\s+type[\s{*]/;
+const COMMENT_LINE = /^\s*(?:\/\/.*|\/\*.*\*\/\s*)$/;
+
+function getGroup(specifier: string): ImportGroup {
+    if (specifier.startsWith('.') || specifier.startsWith('/')) {
+        return 'relative';
+    }
+    if (/^(?:node|bun):/.test(specifier) || BUILTIN_MODULES.has(specifier)) {
+        return 'builtin';
+    }
+    return 'package';
+}
+
+/**
+ * Read the import starting at lines[start], which may span several lines
+ * Returns undefined when the lines never complete an import declaration
+ */
+function readImport(
+    lines: string[],
+    start: number,
+): { statement: ImportStatement; end: number } | undefined {
+    const sideEffect = SIDE_EFFECT_IMPORT.exec(lines[start]);
+    if (sideEffect) {
+        return {
+            statement: {
+                lines: [lines[start]],
+                specifier: sideEffect[2],
+                group: getGroup(sideEffect[2]),
+                isType: false,
+                isSideEffect: true,
+            },
+            end: start + 1,
+        };
+    }
+
+    for (let end = start; end < lines.length; end++) {
+        // A new import or statement before `from` means this isn't a declaration we understand
+        if (end > start && (IMPORT_START.test(lines[end]) || lines[end].includes(';'))) {
+            if (!FROM_CLAUSE.test(lines[end])) {
+                return undefined;
+            }
+        }
+        const from = FROM_CLAUSE.exec(lines[end]);
+        if (from) {
+            return {
+                statement: {
+                    lines: lines.slice(start, end + 1),
+                    specifier: from[2],
+                    group: getGroup(from[2]),
+                    isType: TYPE_IMPORT.test(lines[start]),
+                    isSideEffect: false,
+                },
+                end: end + 1,
+            };
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Sort the names inside `{ ... }`, ignoring a leading `type` modifier
+ * Lists containing comments are left alone so comments never move away from their names
+ */
+function sortNamedSpecifiers(statement: string): string {
+    const open = statement.indexOf('{');
+    const close = statement.indexOf('}', open);
+    if (open === -1 || close === -1) {
+        return statement;
+    }
+    const names = statement.slice(open + 1, close);
+    if (names.includes('//') || names.includes('/*')) {
+        return statement;
+    }
+    const sorted = sortListItems(names, {
+        delimiter: ',',
+        comparator: 'insensitive',
+        direction: 'asc',
+        key: (name) => name.replace(/^type\s+/, ''),
+    });
+    return statement.slice(0, open + 1) + sorted + statement.slice(close);
+}
+
+function compareImports(a: ImportStatement, b: ImportStatement): number {
+    return (
+        GROUP_ORDER.indexOf(a.group) - GROUP_ORDER.indexOf(b.group) ||
+        compareTextInsensitive(a.specifier, b.specifier) ||
+        compareText(a.specifier, b.specifier) ||
+        Number(a.isType) - Number(b.isType)
+    );
+}
+
+/**
+ * Sort one run of imports (no code between them)
+ * Imports are grouped between side-effect imports; when the run used blank
+ * lines, each group is separated by one blank line, otherwise by none.
+ */
+function sortRun(statements: ImportStatement[], separateGroups: boolean): string[] {
+    const chunks: string[][] = [];
+    let pending: ImportStatement[] = [];
+
+    const flush = () => {
+        const sorted = [...pending].sort(compareImports);
+        for (const group of GROUP_ORDER) {
+            const inGroup = sorted.filter((statement) => statement.group === group);
+            if (inGroup.length > 0) {
+                chunks.push(inGroup.flatMap((statement) => statement.lines));
+            }
+        }
+        pending = [];
+    };
+
+    for (const statement of statements) {
+        if (statement.isSideEffect) {
+            flush();
+            chunks.push(statement.lines);
+        } else {
+            const text = sortNamedSpecifiers(statement.lines.join('\n'));
+            pending.push({ ...statement, lines: text.split('\n') });
+        }
+    }
+    flush();
+
+    if (!separateGroups) {
+        return chunks.flat();
+    }
+    return chunks.flatMap((chunk, i) => (i === 0 ? chunk : ['', ...chunk]));
+}
+
+/**
+ * Sort every run of contiguous import declarations in the text
+ */
+export function sortImportsText(text: string): string {
+    const eol = text.includes('\r\n') ? '\r\n' : '\n';
+    const lines = text.split(/\r?\n/);
+    const result: string[] = [];
+
+    let i = 0;
+    while (i < lines.length) {
+        if (!IMPORT_START.test(lines[i]) || !readImport(lines, i)) {
+            result.push(lines[i]);
+            i++;
+            continue;
+        }
+
+        const statements: ImportStatement[] = [];
+        let comments: string[] = [];
+        let hasBlankLines = false;
+        let blankPending = false;
+        let runEnd = i;
+        let cursor = i;
+
+        while (cursor < lines.length) {
+            const line = lines[cursor];
+            if (line.trim().length === 0) {
+                blankPending = true;
+                cursor++;
+                continue;
+            }
+            if (COMMENT_LINE.test(line)) {
+                comments.push(line);
+                cursor++;
+                continue;
+            }
+            const read = IMPORT_START.test(line) ? readImport(lines, cursor) : undefined;
+            if (!read) {
+                break;
+            }
+            read.statement.lines.unshift(...comments);
+            statements.push(read.statement);
+            hasBlankLines ||= blankPending;
+            blankPending = false;
+            comments = [];
+            cursor = read.end;
+            runEnd = cursor;
+        }
+
+        // Blank lines and comments after the last import belong to the code that follows
+        result.push(...sortRun(statements, hasBlankLines));
+        i = runEnd;
+    }
+
+    return result.join(eol);
+}
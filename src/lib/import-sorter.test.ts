@@ -0,0 +1,114 @@
+import { describe, it } from 'bun:test';
+import * as assert from 'assert';
+import { sortImportsText } from './import-sorter-core.js';
+
+describe('Import Sorting', () => {
+    it('should group built-ins, packages and relative imports', () => {
+        const input = [
+            "import { b } from './b.js';",
+            "import * as vscode from 'vscode';",
+            "import { a } from '../a.js';",
+            "import path from 'path';",
+            "import { readFile } from 'node:fs/promises';",
+            "import Zod from 'zod';",
+            '',
+            'const x = 1;',
+        ].join('\n');
+
+        const expected = [
+            "import { readFile } from 'node:fs/promises';",
+            "import path from 'path';",
+            "import * as vscode from 'vscode';",
+            "import Zod from 'zod';",
+            "import { a } from '../a.js';",
+            "import { b } from './b.js';",
+            '',
+            'const x = 1;',
+        ].join('\n');
+
+        assert.strictEqual(sortImportsText(input), expected);
+    });
+
+    it('should sort named specifiers, ignoring the type modifier', () => {
+        assert.strictEqual(
+            sortImportsText("import { c, type B, a } from 'x';"),
+            "import { a, type B, c } from 'x';",
+        );
+    });
+
+    it('should handle multi-line imports and put type imports after value imports', () => {
+        const input = [
+            "import type { Z } from 'lib';",
+            'import {',
+            '    zeta,',
+            '    alpha,',
+            "} from 'lib';",
+            "import { m } from 'another';",
+        ].join('\n');
+
+        const expected = [
+            "import { m } from 'another';",
+            'import {',
+            '    alpha,',
+            '    zeta,',
+            "} from 'lib';",
+            "import type { Z } from 'lib';",
+        ].join('\n');
+
+        assert.strictEqual(sortImportsText(input), expected);
+    });
+
+    it('should keep side-effect imports in place and sort around them', () => {
+        const input = [
+            "import { b } from 'b';",
+            "import { a } from 'a';",
+            "import './polyfill.js';",
+            "import { d } from 'd';",
+            "import { c } from 'c';",
+        ].join('\n');
+
+        const expected = [
+            "import { a } from 'a';",
+            "import { b } from 'b';",
+            "import './polyfill.js';",
+            "import { c } from 'c';",
+            "import { d } from 'd';",
+        ].join('\n');
+
+        assert.strictEqual(sortImportsText(input), expected);
+    });
+
+    it('should separate groups with a blank line when the imports already used them', () => {
+        const input = [
+            '// License header',
+            '',
+            "import { b } from './b.js';",
+            '',
+            '// Editor API',
+            "import * as vscode from 'vscode';",
+            "import fs from 'fs';",
+            '',
+            'export {};',
+        ].join('\r\n');
+
+        const expected = [
+            '// License header',
+            '',
+            "import fs from 'fs';",
+            '',
+            '// Editor API',
+            "import * as vscode from 'vscode';",
+            '',
+            "import { b } from './b.js';",
+            '',
+            'export {};',
+        ].join('\r\n');
+
+        assert.strictEqual(sortImportsText(input), expected);
+    });
+
+    it('should leave code that only looks like an import alone', () => {
+        const input = "const mod = await import('./b.js');\nimport.meta.url;";
+        assert.strictEqual(sortImportsText(input), input);
+    });
+});
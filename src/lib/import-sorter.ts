@@ -0,0 +1,53 @@
+import * as vscode from 'vscode';
+import { sortImportsText } from './import-sorter-core.js';
+
+const IMPORT_LANGUAGES = new Set([
+    'typescript',
+    'typescriptreact',
+    'javascript',
+    'javascriptreact',
+]);
+
+/**
+ * Whether Sort Imports understands this document's language
+ */
+export function supportsImportSorting(languageId: string): boolean {
+    return IMPORT_LANGUAGES.has(languageId);
+}
+
+/**
+ * Sort TS/JS imports in the selected lines, or the whole document without a selection
+ */
+export async function sortImports(editor: vscode.TextEditor): Promise<void> {
+    const document = editor.document;
+    const selection = editor.selection;
+
+    try {
+        const range = selection.isEmpty
+            ? new vscode.Range(
+                  document.positionAt(0),
+                  document.positionAt(document.getText().length),
+              )
+            : new vscode.Range(
+                  document.lineAt(selection.start.line).range.start,
+                  document.lineAt(selection.end.line).range.end,
+              );
+        const text = document.getText(range);
+        const result = sortImportsText(text);
+
+        if (result === text) {
+            return;
+        }
+
+        await editor.edit((editBuilder: vscode.TextEditorEdit) => {
+            editBuilder.replace(range, result);
+        });
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        vscode.window.showErrorMessage(
+            `Line King: Unable to sort imports. ${errorMessage.substring(0, 100)}`,
+        );
+    }
+}
+
+export { sortImportsText };
@@ -0,0 +1,57 @@
+import { describe, it } from 'bun:test';
+import * as assert from 'assert';
+import { sortLineItems, type InlineSortOptions } from './inline-sorter.js';
+
+const asc: InlineSortOptions = { delimiter: 'auto', comparator: 'string', direction: 'asc' };
+
+describe('Inline Item Sorting', () => {
+    it('should sort a bracketed import list in place', () => {
+        assert.strictEqual(
+            sortLineItems("import { c, a, b } from './x.js';", asc),
+            "import { a, b, c } from './x.js';",
+        );
+    });
+
+    it('should keep whitespace around delimiters and a trailing delimiter', () => {
+        assert.strictEqual(sortLineItems('  c ,b,  a,', asc), '  a ,b,  c,');
+        assert.strictEqual(
+            sortLineItems("const x = ['b', 'a', ];", asc),
+            "const x = ['a', 'b', ];",
+        );
+    });
+
+    it('should pick pipe or whitespace when there is no comma', () => {
+        assert.strictEqual(sortLineItems('c | a | b', asc), 'a | b | c');
+        assert.strictEqual(sortLineItems('btn  primary active', asc), 'active  btn primary');
+    });
+
+    it('should not split inside nested brackets or quotes', () => {
+        assert.strictEqual(
+            sortLineItems('fn() [z(1, 2), "b, c", a]', asc),
+            'fn() ["b, c", a, z(1, 2)]',
+        );
+    });
+
+    it('should sort the first quoted list when there are no brackets', () => {
+        assert.strictEqual(sortLineItems('<div class="c b a">', asc), '<div class="a b c">');
+        assert.strictEqual(sortLineItems('class="c b a"', asc), 'class="a b c"');
+        assert.strictEqual(sortLineItems('"b", "a"', asc), '"a", "b"');
+    });
+
+    it('should keep empty items where they are', () => {
+        assert.strictEqual(sortLineItems('c, b, , a', asc), 'a, b, , c');
+    });
+
+    it('should not treat an apostrophe inside a word as a quote', () => {
+        assert.strictEqual(sortLineItems("it's c, b, a", asc), "a, b, it's c");
+    });
+
+    it('should honour the comparator and direction', () => {
+        const options: InlineSortOptions = {
+            delimiter: ',',
+            comparator: 'natural',
+            direction: 'desc',
+        };
+        assert.strictEqual(sortLineItems('(x2, x10, x1)', options), '(x10, x2, x1)');
+    });
+});
@@ -0,0 +1,226 @@
+/**
+ * Sort the items inside a single line
+ * Handles comma, pipe and whitespace separated lists, the contents of the
+ * first [...], {...} or (...) list on the line (e.g. `import { b, a, c }`), and
+ * otherwise of the first quoted list (e.g. `class="c b a"`).
+ * Pure logic only - no VS Code dependencies for unit testing compatibility.
+ */
+
+import {
+    getKeyComparator,
+    sortByKey,
+    type KeyComparatorName,
+    type KeyComparatorOptions,
+    type SortDirection,
+} from './sorter.js';
+
+/** 'auto' picks comma, then pipe, then whitespace - whichever the list uses */
+export type InlineDelimiter = 'auto' | ',' | '|' | 'whitespace';
+
+export interface InlineSortOptions extends KeyComparatorOptions {
+    delimiter: InlineDelimiter;
+    comparator: KeyComparatorName;
+    direction: SortDirection;
+    /** Text each item is compared by (default: the item itself) */
+    key?: (item: string) => string;
+}
+
+const BRACKET_PAIRS: Record<string, string> = { '[': ']', '{': '}', '(': ')' };
+const CLOSING_BRACKETS = new Set(Object.values(BRACKET_PAIRS));
+const QUOTES = new Set(['"', "'", '`']);
+
+// An apostrophe between letters (`it's`) doesn't open a string
+const APOSTROPHE = /^\p{L}'\p{L}$/u;
+
+/** Whether the character at index opens a quoted string */
+function opensQuote(text: string, index: number): boolean {
+    return (
+        QUOTES.has(text[index]) && !APOSTROPHE.test(text.slice(Math.max(0, index - 1), index + 2))
+    );
+}
+
+/**
+ * Walk a string calling visit(index, depth) for every character outside quotes,
+ * where depth is the bracket nesting level before that character
+ */
+function scanTopLevel(text: string, visit: (index: number, depth: number) => boolean): void {
+    let depth = 0;
+    let quote: string | undefined;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quote) {
+            if (char === '\\') {
+                i++;
+            } else if (char === quote) {
+                quote = undefined;
+            }
+            continue;
+        }
+        if (opensQuote(text, i)) {
+            quote = char;
+            continue;
+        }
+        if (visit(i, depth)) {
+            return;
+        }
+        if (char in BRACKET_PAIRS) {
+            depth++;
+        } else if (CLOSING_BRACKETS.has(char) && depth > 0) {
+            depth--;
+        }
+    }
+}
+
+/**
+ * Find the contents of the first non-empty bracketed list that closes on this line
+ */
+function findBracketContents(text: string): { start: number; end: number } | undefined {
+    let open = -1;
+    let found: { start: number; end: number } | undefined;
+    scanTopLevel(text, (index, depth) => {
+        const char = text[index];
+        if (open === -1 && depth === 0 && char in BRACKET_PAIRS) {
+            open = index;
+        } else if (open !== -1 && depth === 1 && char === BRACKET_PAIRS[text[open]]) {
+            if (text.slice(open + 1, index).trim().length > 0) {
+                found = { start: open + 1, end: index };
+                return true;
+            }
+            // Skip empty lists like the () in `fn() [b, a]`
+            open = -1;
+        }
+        return false;
+    });
+    return found;
+}
+
+/**
+ * Find the contents of the first quoted string on this line that holds a list
+ */
+function findQuotedContents(
+    text: string,
+    delimiter: InlineDelimiter,
+): { start: number; end: number } | undefined {
+    for (let i = 0; i < text.length; i++) {
+        if (!opensQuote(text, i)) {
+            continue;
+        }
+        let close = i + 1;
+        while (close < text.length && text[close] !== text[i]) {
+            close += text[close] === '\\' ? 2 : 1;
+        }
+        const contents = text.slice(i + 1, close).trim();
+        if (findDelimiters(contents, resolveDelimiter(contents, delimiter)).length > 0) {
+            return { start: i + 1, end: Math.min(close, text.length) };
+        }
+        i = close;
+    }
+    return undefined;
+}
+
+/**
+ * Indexes where top-level delimiters occur (outside nested brackets and quotes)
+ * For whitespace, each run of whitespace is one delimiter, reported as [start, end)
+ */
+function findDelimiters(text: string, delimiter: Exclude<InlineDelimiter, 'auto'>): number[][] {
+    const found: number[][] = [];
+    scanTopLevel(text, (index, depth) => {
+        if (depth > 0) {
+            return false;
+        }
+        if (delimiter === 'whitespace') {
+            if (/\s/.test(text[index])) {
+                const last = found[found.length - 1];
+                if (last && last[1] === index) {
+                    last[1] = index + 1;
+                } else {
+                    found.push([index, index + 1]);
+                }
+            }
+        } else if (text[index] === delimiter) {
+            found.push([index, index + 1]);
+        }
+        return false;
+    });
+    return found;
+}
+
+function resolveDelimiter(
+    text: string,
+    delimiter: InlineDelimiter,
+): Exclude<InlineDelimiter, 'auto'> {
+    if (delimiter !== 'auto') {
+        return delimiter;
+    }
+    if (findDelimiters(text, ',').length > 0) {
+        return ',';
+    }
+    if (findDelimiters(text, '|').length > 0) {
+        return '|';
+    }
+    return 'whitespace';
+}
+
+/**
+ * Sort a delimited list, keeping each position's surrounding whitespace and
+ * delimiter where it was so only the items themselves move
+ */
+export function sortListItems(text: string, options: InlineSortOptions): string {
+    const leading = text.length - text.trimStart().length;
+    const trailing = text.length - text.trimEnd().length;
+    const body = text.slice(leading, text.length - trailing);
+
+    const delimiter = resolveDelimiter(body, options.delimiter);
+    const cuts = findDelimiters(body, delimiter);
+    if (cuts.length === 0) {
+        return text;
+    }
+
+    // Split into items, each with the whitespace around it kept separately
+    const frames: Array<{ before: string; item: string; after: string }> = [];
+    let start = 0;
+    for (const [cutStart, cutEnd] of [...cuts, [body.length, body.length]]) {
+        const part = body.slice(start, cutStart);
+        const item = part.trim();
+        const before = part.slice(0, part.length - part.trimStart().length);
+        frames.push({ before, item, after: part.slice(before.length + item.length) });
+        start = cutEnd;
+    }
+
+    // Empty items (`a, , b` or a trailing delimiter) stay put
+    const sortable = frames.filter((frame) => frame.item !== '');
+    const sorted = sortByKey(
+        sortable.map((frame) => frame.item),
+        options.key ?? ((item) => item),
+        getKeyComparator(options.comparator, options),
+        options.direction,
+    );
+    sorted.forEach((item, i) => (sortable[i].item = item));
+
+    let result = '';
+    frames.forEach((frame, i) => {
+        result += frame.before + frame.item + frame.after;
+        if (i < cuts.length) {
+            result += body.slice(cuts[i][0], cuts[i][1]);
+        }
+    });
+    return text.slice(0, leading) + result + text.slice(text.length - trailing);
+}
+
+/**
+ * Sort the items of one line (or selected text)
+ * When the text contains a bracketed list, only that list's contents are
+ * sorted; failing that, the contents of the first quoted list; otherwise the
+ * whole text is treated as the list
+ */
+export function sortLineItems(text: string, options: InlineSortOptions): string {
+    const list = findBracketContents(text) ?? findQuotedContents(text, options.delimiter);
+    if (!list) {
+        return sortListItems(text, options);
+    }
+    return (
+        text.slice(0, list.start) +
+        sortListItems(text.slice(list.start, list.end), options) +
+        text.slice(list.end)
+    );
+}
@@ -0,0 +1,162 @@
+/**
+ * IP address parsing for sorting
+ * Handles IPv4, IPv6 (with :: compression, embedded IPv4 and zone IDs) and CIDR prefixes.
+ * Pure logic only - no VS Code dependencies for unit testing compatibility.
+ */
+
+import { REGEX } from '../constants.js';
+
+const IPV4_BITS = 32;
+const IPV6_BITS = 128;
+const IPV6_GROUPS = 8;
+const IPV4_OCTET_MAX = 255;
+const GROUP_SHIFT = 16n;
+const OCTET_SHIFT = 8n;
+
+export interface ParsedIP {
+    version: 4 | 6;
+    /** Numeric address value */
+    value: bigint;
+    /** CIDR prefix length; the full address width when no prefix is given */
+    prefix: number;
+    /** IPv6 zone ID (e.g. `eth0` in `fe80::1%eth0`), empty when absent */
+    zone: string;
+}
+
+function parseIPv4(address: string): bigint | undefined {
+    const octets = address.split('.');
+    if (octets.length !== 4) {
+        return undefined;
+    }
+    let value = 0n;
+    for (const octet of octets) {
+        if (!/^\d{1,3}$/.test(octet)) {
+            return undefined;
+        }
+        const n = parseInt(octet, 10);
+        if (n > IPV4_OCTET_MAX) {
+            return undefined;
+        }
+        value = (value << OCTET_SHIFT) | BigInt(n);
+    }
+    return value;
+}
+
+function parseIPv6(address: string): bigint | undefined {
+    // Rewrite an embedded IPv4 tail (::ffff:1.2.3.4) as two hex groups
+    const lastColon = address.lastIndexOf(':');
+    const lastPart = address.slice(lastColon + 1);
+    if (lastPart.includes('.')) {
+        const v4 = parseIPv4(lastPart);
+        if (v4 === undefined) {
+            return undefined;
+        }
+        const high = (v4 >> GROUP_SHIFT).toString(16);
+        const low = (v4 & 0xffffn).toString(16);
+        address = `${address.slice(0, lastColon + 1)}${high}:${low}`;
+    }
+
+    const halves = address.split('::');
+    if (halves.length > 2) {
+        return undefined;
+    }
+
+    const toGroups = (part: string): string[] => (part === '' ? [] : part.split(':'));
+    const head = toGroups(halves[0]);
+    const tail = halves.length === 2 ? toGroups(halves[1]) : [];
+    const compressed = halves.length === 2;
+
+    if (compressed ? head.length + tail.length >= IPV6_GROUPS : head.length !== IPV6_GROUPS) {
+        return undefined;
+    }
+
+    const fill = new Array<string>(IPV6_GROUPS - head.length - tail.length).fill('0');
+    let value = 0n;
+    for (const group of [...head, ...fill, ...tail]) {
+        if (!/^[0-9a-f]{1,4}$/i.test(group)) {
+            return undefined;
+        }
+        value = (value << GROUP_SHIFT) | BigInt(parseInt(group, 16));
+    }
+    return value;
+}
+
+/**
+ * Parse a single address token such as `10.0.0.0/8`, `::1` or `fe80::1%eth0/64`
+ *
+ * @returns The parsed address, or undefined if the token is not a valid address
+ */
+export function parseIPAddress(token: string): ParsedIP | undefined {
+    let address = token;
+    let prefixText: string | undefined;
+    let zone = '';
+
+    const slash = address.indexOf('/');
+    if (slash !== -1) {
+        prefixText = address.slice(slash + 1);
+        address = address.slice(0, slash);
+    }
+
+    const percent = address.indexOf('%');
+    if (percent !== -1) {
+        zone = address.slice(percent + 1);
+        address = address.slice(0, percent);
+        if (zone.length === 0) {
+            return undefined;
+        }
+    }
+
+    const version = address.includes(':') ? 6 : 4;
+    if (version === 4 && zone) {
+        return undefined;
+    }
+
+    const value = version === 4 ? parseIPv4(address) : parseIPv6(address);
+    if (value === undefined) {
+        return undefined;
+    }
+
+    const bits = version === 4 ? IPV4_BITS : IPV6_BITS;
+    let prefix = bits;
+    if (prefixText !== undefined) {
+        if (!/^\d{1,3}$/.test(prefixText)) {
+            return undefined;
+        }
+        prefix = parseInt(prefixText, 10);
+        if (prefix > bits) {
+            return undefined;
+        }
+    }
+
+    return { version, value, prefix, zone };
+}
+
+/**
+ * Find the first valid IPv4 or IPv6 address (optionally with CIDR prefix) in a line
+ * Candidates that look like addresses but aren't valid (e.g. `999.1.1.1`) are skipped
+ */
+export function findIPAddress(line: string): ParsedIP | undefined {
+    for (const match of line.matchAll(REGEX.IP_ADDRESS)) {
+        const parsed = parseIPAddress(match[0]);
+        if (parsed) {
+            return parsed;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Order addresses IPv4 first, then by numeric value, prefix length and zone ID
+ */
+export function compareIPAddresses(a: ParsedIP, b: ParsedIP): number {
+    if (a.version !== b.version) {
+        return a.version - b.version;
+    }
+    if (a.value !== b.value) {
+        return a.value < b.value ? -1 : 1;
+    }
+    if (a.prefix !== b.prefix) {
+        return a.prefix - b.prefix;
+    }
+    return a.zone < b.zone ? -1 : a.zone > b.zone ? 1 : 0;
+}
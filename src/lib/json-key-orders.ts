@@ -0,0 +1,153 @@
+/**
+ * Key-order profiles for JSON files with a conventional key order
+ * Keys a profile lists come first, in its order; other keys follow alphabetically.
+ * Pure logic only - no VS Code dependencies for unit testing compatibility.
+ */
+
+export interface KeyOrderProfile {
+    name: string;
+    /** File names the profile applies to; `*` and `?` work as in globs */
+    files: string[];
+    /** Top-level keys, in the order they should appear */
+    keys: string[];
+}
+
+export const BUILT_IN_KEY_ORDERS: KeyOrderProfile[] = [
+    {
+        name: 'package.json',
+        files: ['package.json'],
+        keys: [
+            '$schema',
+            'name',
+            'displayName',
+            'version',
+            'private',
+            'description',
+            'categories',
+            'keywords',
+            'homepage',
+            'bugs',
+            'repository',
+            'funding',
+            'license',
+            'author',
+            'maintainers',
+            'contributors',
+            'publisher',
+            'sideEffects',
+            'type',
+            'imports',
+            'exports',
+            'main',
+            'module',
+            'browser',
+            'types',
+            'typesVersions',
+            'typings',
+            'bin',
+            'man',
+            'directories',
+            'files',
+            'workspaces',
+            'icon',
+            'galleryBanner',
+            'activationEvents',
+            'contributes',
+            'scripts',
+            'config',
+            'lint-staged',
+            'prettier',
+            'eslintConfig',
+            'browserslist',
+            'jest',
+            'overrides',
+            'resolutions',
+            'dependencies',
+            'devDependencies',
+            'peerDependencies',
+            'peerDependenciesMeta',
+            'optionalDependencies',
+            'bundleDependencies',
+            'extensionPack',
+            'extensionDependencies',
+            'packageManager',
+            'engines',
+            'os',
+            'cpu',
+            'publishConfig',
+        ],
+    },
+    {
+        name: 'tsconfig',
+        files: ['tsconfig.json', 'tsconfig.*.json', 'jsconfig.json'],
+        keys: [
+            '$schema',
+            'extends',
+            'compilerOptions',
+            'files',
+            'include',
+            'exclude',
+            'references',
+            'watchOptions',
+            'typeAcquisition',
+        ],
+    },
+    {
+        name: 'composer.json',
+        files: ['composer.json'],
+        keys: [
+            'name',
+            'type',
+            'description',
+            'keywords',
+            'homepage',
+            'readme',
+            'version',
+            'time',
+            'license',
+            'authors',
+            'support',
+            'funding',
+            'require',
+            'require-dev',
+            'conflict',
+            'replace',
+            'provide',
+            'suggest',
+            'autoload',
+            'autoload-dev',
+            'minimum-stability',
+            'prefer-stable',
+            'repositories',
+            'config',
+            'scripts',
+            'extra',
+            'bin',
+            'archive',
+            'abandoned',
+        ],
+    },
+];
+
+function globToRegExp(glob: string): RegExp {
+    const pattern = glob
+        .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+        .replace(/\*/g, '.*')
+        .replace(/\?/g, '.');
+    return new RegExp(`^${pattern}$`, 'i');
+}
+
+/**
+ * Profile for a file, matched on its base name
+ * Profiles from settings win over built-in ones; a settings profile with an
+ * empty key list turns the built-in order off for its files.
+ */
+export function findKeyOrderProfile(
+    filePath: string,
+    profiles: KeyOrderProfile[],
+): KeyOrderProfile | undefined {
+    const fileName = filePath.split(/[/\\]/).pop() ?? filePath;
+    return [...profiles, ...BUILT_IN_KEY_ORDERS].find((profile) =>
+        profile.files.some((glob) => globToRegExp(glob).test(fileName)),
+    );
+}
@@ -0,0 +1,149 @@
+import { describe, it } from 'bun:test';
+import * as assert from 'assert';
+import { sortJsonByKey, sortJsonByValue } from './json-sorter.js';
+import { findKeyOrderProfile } from './json-key-orders.js';
+import { parseJsonc } from './jsonc.js';
+
+describe('JSON Sorting', () => {
+    it('should sort keys keeping comments, trailing commas and tab indentation', () => {
+        const input = [
+            '{',
+            '\t// Compiler settings',
+            '\t"compilerOptions": {',
+            '\t\t"strict": true, // always',
+            '\t\t"module": "NodeNext",',
+            '\t},',
+            '\t/* sources */',
+            '\t"include": ["src"],',
+            '}',
+        ].join('\n');
+
+        const expected = [
+            '{',
+            '\t// Compiler settings',
+            '\t"compilerOptions": {',
+            '\t\t"module": "NodeNext",',
+            '\t\t"strict": true, // always',
+            '\t},',
+            '\t/* sources */',
+            '\t"include": ["src"],',
+            '}',
+        ].join('\n');
+
+        assert.strictEqual(sortJsonByKey(input), expected);
+    });
+
+    it('should move commas when the last entry has none', () => {
+        assert.strictEqual(
+            sortJsonByKey('{\r\n  "b": 1,\r\n  "a": 2\r\n}'),
+            '{\r\n  "a": 2,\r\n  "b": 1\r\n}',
+        );
+        assert.strictEqual(
+            sortJsonByKey('{"b": 1.50, "a": {"d": 1, "c": 2}}'),
+            '{"a": {"c": 2, "d": 1}, "b": 1.50}',
+        );
+    });
+
+    it('should only sort as deep as the depth limit', () => {
+        const input = '{"b": {"z": 1, "y": 2}, "a": [{"d": 1, "c": 2}]}';
+        assert.strictEqual(
+            sortJsonByKey(input, { depth: 1 }),
+            '{"a": [{"d": 1, "c": 2}], "b": {"z": 1, "y": 2}}',
+        );
+        assert.strictEqual(
+            sortJsonByKey(input, { depth: 2 }),
+            '{"a": [{"c": 2, "d": 1}], "b": {"y": 2, "z": 1}}',
+        );
+    });
+
+    it('should sort members by value', () => {
+        assert.strictEqual(
+            sortJsonByValue('{"x": "pear", "y": "apple", "z": "fig"}'),
+            '{"y": "apple", "z": "fig", "x": "pear"}',
+        );
+    });
+
+    it('should compare typed values numerically with null last', () => {
+        const input = '{"a": null, "b": 10, "c": "x", "d": 9, "e": true, "f": false}';
+        assert.strictEqual(
+            sortJsonByValue(input),
+            '{"b": 10, "d": 9, "f": false, "a": null, "e": true, "c": "x"}',
+        );
+        assert.strictEqual(
+            sortJsonByValue(input, { depth: 0, valueOrder: 'typed' }),
+            '{"d": 9, "b": 10, "c": "x", "f": false, "e": true, "a": null}',
+        );
+    });
+
+    it('should compare strings in natural order', () => {
+        assert.strictEqual(
+            sortJsonByValue('{"a": "item10", "b": "item2"}', { depth: 0, valueOrder: 'natural' }),
+            '{"b": "item2", "a": "item10"}',
+        );
+    });
+
+    it('should only sort array elements when asked', () => {
+        const input = '{"tags": ["b", "c", "a"]}';
+        assert.strictEqual(sortJsonByValue(input), input);
+        assert.strictEqual(
+            sortJsonByValue(input, { depth: 0, sortArrays: true }),
+            '{"tags": ["a", "b", "c"]}',
+        );
+    });
+
+    it('should sort arrays of objects by key path with missing values last', () => {
+        const input = [
+            '[',
+            '  {"name": "b", "meta": {"id": 10}},',
+            '  {"name": "none"},',
+            '  {"name": "a", "meta": {"id": 9}}',
+            ']',
+        ].join('\n');
+        const expected = [
+            '[',
+            '  {"name": "a", "meta": {"id": 9}},',
+            '  {"name": "b", "meta": {"id": 10}},',
+            '  {"name": "none"}',
+            ']',
+        ].join('\n');
+
+        assert.strictEqual(
+            sortJsonByValue(input, {
+                depth: 1,
+                valueOrder: 'typed',
+                sortArrays: true,
+                arrayKeyPath: 'meta.id',
+            }),
+            expected,
+        );
+    });
+
+    it('should report where invalid JSON fails', () => {
+        assert.throws(() => parseJsonc('{\n  "a": 1\n  "b": 2\n}'), /line 3, column 3/);
+        assert.throws(() => parseJsonc('{"a": 1} extra'), /after the end/);
+    });
+});
+
+describe('JSON Key Orders', () => {
+    it('should put profile keys first in order and the rest alphabetically', () => {
+        assert.strictEqual(
+            sortJsonByKey('{"scripts": {"b": "", "a": ""}, "zeta": 1, "name": "x", "alpha": 2}', {
+                depth: 0,
+                keyOrder: ['name', 'version', 'scripts'],
+            }),
+            '{"name": "x", "scripts": {"a": "", "b": ""}, "alpha": 2, "zeta": 1}',
+        );
+    });
+
+    it('should pick profiles by file name, preferring settings over built-ins', () => {
+        assert.strictEqual(findKeyOrderProfile('/repo/package.json', [])?.name, 'package.json');
+        assert.strictEqual(
+            findKeyOrderProfile('C:\\repo\\tsconfig.build.json', [])?.name,
+            'tsconfig',
+        );
+        assert.strictEqual(findKeyOrderProfile('/repo/data.json', []), undefined);
+
+        const custom = { name: 'Mine', files: ['tsconfig.json'], keys: [] };
+        assert.strictEqual(findKeyOrderProfile('tsconfig.json', [custom]), custom);
+    });
+});
@@ -0,0 +1,234 @@
+/**
+ * JSON / JSONC sorting that keeps the document's formatting
+ * Entries are moved as text, so comments, indentation (tabs or spaces), line
+ * endings and number spellings stay exactly as written; only the order changes.
+ * Pure logic only - no VS Code dependencies for unit testing compatibility.
+ */
+
+import { compareText, compareTextNatural } from './collation.js';
+import { compactJson, parseJsonc, stringValue, type JsonEntry, type JsonNode } from './jsonc.js';
+
+/**
+ * How values compare when sorting by value
+ * - text: as text (strings by contents, anything else as compact JSON)
+ * - typed: numbers numerically, then strings, booleans, objects and arrays, with null last
+ * - natural: as text, with runs of digits compared as numbers (item2 before item10)
+ */
+export type JsonValueOrder = 'text' | 'typed' | 'natural';
+
+export interface JsonSortOptions {
+    /** How many levels of nested objects to sort: 1 sorts only top-level keys, 0 sorts all */
+    depth: number;
+    /** Top-level keys that come first, in this order (sortJsonByKey only) */
+    keyOrder?: string[];
+    /** How values compare (sortJsonByValue only, default text) */
+    valueOrder?: JsonValueOrder;
+    /** Also sort array elements (sortJsonByValue only) */
+    sortArrays?: boolean;
+    /** Dotted path of the value that orders arrays of objects, e.g. `meta.id` */
+    arrayKeyPath?: string;
+}
+
+export const DEFAULT_JSON_SORT_OPTIONS: JsonSortOptions = { depth: 0 };
+
+const JSON_VALUE_ORDERS: readonly JsonValueOrder[] = ['text', 'typed', 'natural'];
+
+export function isJsonValueOrder(value: unknown): value is JsonValueOrder {
+    return JSON_VALUE_ORDERS.includes(value as JsonValueOrder);
+}
+
+/**
+ * Compares two entries of a container nested `level` objects deep (1 = top level)
+ */
+type EntryComparator = (
+    text: string,
+    a: JsonEntry,
+    b: JsonEntry,
+    level: number,
+    container: JsonNode,
+) => number;
+
+/** Typed order of value kinds; null sorts after everything */
+const TYPE_RANK: Record<string, number> = {
+    number: 0,
+    string: 1,
+    false: 2,
+    true: 3,
+    object: 4,
+    array: 4,
+    null: 5,
+};
+
+/**
+ * Entry text with or without a comma after the value
+ * A trailing `// comment` becomes a block comment when no line break follows
+ * it any more, since it would otherwise swallow the rest of the line.
+ */
+function entryText(
+    text: string,
+    entry: JsonEntry,
+    value: string,
+    withComma: boolean,
+    followedByLineBreak: boolean,
+): string {
+    const before = text.slice(entry.start, entry.value.start);
+    const comma = withComma ? ',' : '';
+    let after =
+        entry.comma === -1
+            ? comma + text.slice(entry.value.end, entry.end)
+            : text.slice(entry.value.end, entry.comma) +
+              comma +
+              text.slice(entry.comma + 1, entry.end);
+
+    if (entry.lineComment !== -1 && !followedByLineBreak) {
+        const comment = entry.end - entry.lineComment;
+        after = `${after.slice(0, after.length - comment)}/* ${text.slice(entry.lineComment + 2, entry.end).trim()} */`;
+    }
+    return before + value + after;
+}
+
+/**
+ * Render a node, sorting the members of objects (and, when enabled, the elements
+ * of arrays) nested at most `depth` objects deep
+ */
+function renderNode(
+    text: string,
+    node: JsonNode,
+    compare: EntryComparator,
+    options: JsonSortOptions,
+    level: number,
+): string {
+    if (node.entries.length === 0) {
+        return text.slice(node.start, node.end);
+    }
+
+    const entries = node.entries;
+    const childLevel = node.kind === 'object' ? level + 1 : level;
+    const sortable = node.kind === 'object' || options.sortArrays === true;
+    const shouldSort = sortable && (options.depth === 0 || level <= options.depth);
+    const ordered = shouldSort
+        ? [...entries].sort((a, b) => compare(text, a, b, level, node))
+        : entries;
+    // Without a trailing comma on the last entry, the entry that ends up last mustn't get one either
+    const trailingComma = entries[entries.length - 1].comma !== -1;
+
+    let result = text.slice(node.start, entries[0].start);
+    ordered.forEach((entry, i) => {
+        const isLast = i === entries.length - 1;
+        const gap = isLast
+            ? text.slice(entries[i].end, node.end)
+            : text.slice(entries[i].end, entries[i + 1].start);
+        const value = renderNode(text, entry.value, compare, options, childLevel);
+        const lineBreakFollows = /^[^\S\n]*\n/.test(gap);
+        result += entryText(text, entry, value, trailingComma || !isLast, lineBreakFollows);
+        result += gap;
+    });
+    return result;
+}
+
+function sortJson(text: string, compare: EntryComparator, options: JsonSortOptions): string {
+    const root = parseJsonc(text);
+    return (
+        text.slice(0, root.start) +
+        renderNode(text, root, compare, options, 1) +
+        text.slice(root.end)
+    );
+}
+
+/**
+ * Text a value is compared by: a string's contents, or compact JSON for anything else
+ */
+function valueKey(text: string, node: JsonNode): string {
+    return node.kind === 'string' ? stringValue(text, node) : compactJson(text, node);
+}
+
+/**
+ * Sort object keys, keeping comments with their keys and the document's formatting
+ * Top-level keys in options.keyOrder come first, in that order
+ */
+export function sortJsonByKey(
+    text: string,
+    options: JsonSortOptions = DEFAULT_JSON_SORT_OPTIONS,
+): string {
+    const rank = new Map(options.keyOrder?.map((key, i) => [key, i]));
+    const rankOf = (key: string, level: number) =>
+        level === 1 ? (rank.get(key) ?? rank.size) : rank.size;
+
+    return sortJson(
+        text,
+        (_, a, b, level) =>
+            rankOf(a.key!, level) - rankOf(b.key!, level) || compareText(a.key!, b.key!),
+        { ...options, sortArrays: false },
+    );
+}
+
+/**
+ * Value at a dotted key path inside an object, or undefined when it is missing
+ */
+function resolvePath(node: JsonNode, path: string[]): JsonNode | undefined {
+    let current: JsonNode | undefined = node;
+    for (const key of path) {
+        if (current?.kind !== 'object') return undefined;
+        current = current.entries.find((entry) => entry.key === key)?.value;
+    }
+    return current;
+}
+
+function typeRank(text: string, node: JsonNode): number {
+    return TYPE_RANK[node.kind === 'literal' ? text.slice(node.start, node.end) : node.kind];
+}
+
+function compareTyped(text: string, a: JsonNode, b: JsonNode): number {
+    const rank = typeRank(text, a) - typeRank(text, b);
+    if (rank !== 0) return rank;
+    if (a.kind === 'number' && b.kind === 'number') {
+        return Number(text.slice(a.start, a.end)) - Number(text.slice(b.start, b.end));
+    }
+    return compareText(valueKey(text, a), valueKey(text, b));
+}
+
+/**
+ * Compare two values; values missing from an array element's key path sort last
+ */
+function compareValues(
+    text: string,
+    a: JsonNode | undefined,
+    b: JsonNode | undefined,
+    order: JsonValueOrder,
+): number {
+    if (!a || !b) {
+        return Number(!a) - Number(!b);
+    }
+    switch (order) {
+        case 'typed':
+            return compareTyped(text, a, b);
+        case 'natural':
+            return compareTextNatural(valueKey(text, a), valueKey(text, b));
+        default:
+            return compareText(valueKey(text, a), valueKey(text, b));
+    }
+}
+
+/**
+ * Sort object members by their values, and array elements when options.sortArrays
+ * is set, keeping comments and the document's formatting
+ * Arrays of objects are ordered by the value at options.arrayKeyPath when given.
+ */
+export function sortJsonByValue(
+    text: string,
+    options: JsonSortOptions = DEFAULT_JSON_SORT_OPTIONS,
+): string {
+    const order = options.valueOrder ?? 'text';
+    const path = options.arrayKeyPath ? options.arrayKeyPath.split('.') : undefined;
+    const sortValue = (entry: JsonEntry, container: JsonNode) =>
+        container.kind === 'array' && path && entry.value.kind === 'object'
+            ? resolvePath(entry.value, path)
+            : entry.value;
+
+    return sortJson(
+        text,
+        (source, a, b, _level, container) =>
+            compareValues(source, sortValue(a, container), sortValue(b, container), order),
+        options,
+    );
+}
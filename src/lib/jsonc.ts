@@ -0,0 +1,199 @@
+/**
+ * Tolerant JSONC parser that keeps source positions
+ * Accepts comments and trailing commas (as in tsconfig.json and VS Code
+ * settings) and records where every value, key and comma is, so sorters can
+ * move entries around without reformatting the document.
+ * Pure logic only - no VS Code dependencies for unit testing compatibility.
+ */
+
+export type JsonNodeKind = 'object' | 'array' | 'string' | 'number' | 'literal';
+
+/** A value, spanning text[start, end) */
+export interface JsonNode {
+    kind: JsonNodeKind;
+    start: number;
+    end: number;
+    /** Members of an object or elements of an array, empty for other kinds */
+    entries: JsonEntry[];
+}
+
+/**
+ * An object member or array element, spanning text[start, end)
+ * The span includes comments directly above the entry and a comment on the
+ * same line after it, so comments move with their entry.
+ */
+export interface JsonEntry {
+    start: number;
+    end: number;
+    /** Decoded member name; undefined for array elements */
+    key?: string;
+    value: JsonNode;
+    /** Index of the comma after the value, or -1 */
+    comma: number;
+    /** Index of the `//` comment ending the entry, or -1 */
+    lineComment: number;
+}
+
+const NUMBER = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][-+]?\d+)?/y;
+const LITERAL = /true|false|null/y;
+
+/**
+ * Parse JSON with comments and trailing commas
+ * Throws an Error naming the line and column of the first problem
+ */
+export function parseJsonc(text: string): JsonNode {
+    let pos = 0;
+
+    const fail = (message: string, at = pos): never => {
+        const before = text.slice(0, at).split('\n');
+        const column = before[before.length - 1].length + 1;
+        throw new Error(`${message} at line ${before.length}, column ${column}`);
+    };
+
+    /** Index after a comment starting at i, or i when there is none */
+    const skipComment = (i: number): number => {
+        if (text.startsWith('//', i)) {
+            const end = text.indexOf('\n', i);
+            return end === -1 ? text.length : end;
+        }
+        if (text.startsWith('/*', i)) {
+            const end = text.indexOf('*/', i + 2);
+            return end === -1 ? fail('Unterminated comment', i) : end + 2;
+        }
+        return i;
+    };
+
+    const skipWhitespace = (i: number): number => {
+        while (i < text.length && /\s/.test(text[i])) i++;
+        return i;
+    };
+
+    const skipTrivia = (i: number): number => {
+        for (;;) {
+            const token = skipWhitespace(i);
+            i = skipComment(token);
+            if (i === token) return i;
+        }
+    };
+
+    /** End of the entry: after the comma, plus any comments on the rest of the line */
+    const entryEnd = (from: number): { end: number; lineComment: number } => {
+        let end = from;
+        let lineComment = -1;
+        let i = from;
+        for (;;) {
+            while (text[i] === ' ' || text[i] === '\t') i++;
+            const after = skipComment(i);
+            if (after === i || text.slice(i, after).includes('\n')) break;
+            lineComment = text.startsWith('//', i) ? i : -1;
+            end = i = after;
+        }
+        return { end, lineComment };
+    };
+
+    const parseString = (): JsonNode => {
+        const start = pos;
+        pos++;
+        while (pos < text.length && text[pos] !== '"') {
+            if (text[pos] === '\n') fail('Unterminated string', start);
+            pos += text[pos] === '\\' ? 2 : 1;
+        }
+        if (pos >= text.length) fail('Unterminated string', start);
+        pos++;
+        return { kind: 'string', start, end: pos, entries: [] };
+    };
+
+    const parseContainer = (kind: 'object' | 'array'): JsonNode => {
+        const start = pos;
+        const close = kind === 'object' ? '}' : ']';
+        const entries: JsonEntry[] = [];
+        pos++;
+
+        for (;;) {
+            const entryStart = skipWhitespace(pos);
+            pos = skipTrivia(pos);
+            if (text[pos] === close) {
+                pos++;
+                return { kind, start, end: pos, entries };
+            }
+
+            let key: string | undefined;
+            if (kind === 'object') {
+                if (text[pos] !== '"') fail('Expected a property name');
+                const name = parseString();
+                key = JSON.parse(text.slice(name.start, name.end)) as string;
+                pos = skipTrivia(pos);
+                if (text[pos] !== ':') fail("Expected ':'");
+                pos = skipTrivia(pos + 1);
+            }
+
+            const value = parseValue();
+            pos = skipTrivia(pos);
+            let comma = -1;
+            if (text[pos] === ',') {
+                comma = pos;
+                pos++;
+            } else if (text[pos] !== close) {
+                fail(`Expected ',' or '${close}'`);
+            }
+
+            const { end, lineComment } = entryEnd(comma === -1 ? value.end : comma + 1);
+            entries.push({ start: entryStart, end, key, value, comma, lineComment });
+            if (comma !== -1) {
+                pos = end;
+            }
+        }
+    };
+
+    const parseValue = (): JsonNode => {
+        const char = text[pos];
+        if (char === '{') return parseContainer('object');
+        if (char === '[') return parseContainer('array');
+        if (char === '"') return parseString();
+
+        for (const [pattern, kind] of [
+            [NUMBER, 'number'],
+            [LITERAL, 'literal'],
+        ] as const) {
+            pattern.lastIndex = pos;
+            const match = pattern.exec(text);
+            if (match) {
+                const start = pos;
+                pos += match[0].length;
+                return { kind, start, end: pos, entries: [] };
+            }
+        }
+        return pos >= text.length ? fail('Unexpected end of input') : fail('Unexpected character');
+    };
+
+    pos = skipTrivia(0);
+    const root = parseValue();
+    pos = skipTrivia(pos);
+    if (pos < text.length) {
+        fail('Unexpected text after the end of the JSON value');
+    }
+    return root;
+}
+
+/**
+ * Decoded value of a string node
+ */
+export function stringValue(text: string, node: JsonNode): string {
+    return JSON.parse(text.slice(node.start, node.end)) as string;
+}
+
+/**
+ * Compact JSON for a node, without whitespace or comments
+ */
+export function compactJson(text: string, node: JsonNode): string {
+    if (node.kind === 'object') {
+        const members = node.entries.map(
+            (entry) => `${JSON.stringify(entry.key)}:${compactJson(text, entry.value)}`,
+        );
+        return `{${members.join(',')}}`;
+    }
+    if (node.kind === 'array') {
+        return `[${node.entries.map((entry) => compactJson(text, entry.value)).join(',')}]`;
+    }
+    return text.slice(node.start, node.end);
+}
@@ -0,0 +1,73 @@
+/**
+ * Word and path keys for sorting file lists, import paths and .gitignore entries
+ * Pure logic only - no VS Code dependencies for unit testing compatibility.
+ */
+
+/** Quotes around a path, as in import lists */
+const QUOTED = /^(['"`])(.*)\1$/;
+const PATH_SEPARATOR = /[/\\]/;
+
+/**
+ * Number of whitespace-separated words (0 for a blank line)
+ */
+export function countWords(line: string): number {
+    const trimmed = line.trim();
+    return trimmed.length === 0 ? 0 : trimmed.split(/\s+/).length;
+}
+
+/**
+ * Last whitespace-separated word, or undefined for a blank line
+ */
+export function lastWord(line: string): string | undefined {
+    const words = line.trim().split(/\s+/);
+    const last = words[words.length - 1];
+    return last.length > 0 ? last : undefined;
+}
+
+/**
+ * The path a line holds: trimmed, unquoted, without a trailing comma or semicolon
+ */
+function toPath(line: string): string {
+    const trimmed = line.trim().replace(/[,;]$/, '');
+    return trimmed.replace(QUOTED, '$2');
+}
+
+/**
+ * Path segments, ignoring empty and `.` segments (so `./a//b/` is a, b)
+ */
+function pathSegments(line: string): string[] {
+    return toPath(line)
+        .split(PATH_SEPARATOR)
+        .filter((segment) => segment.length > 0 && segment !== '.');
+}
+
+/**
+ * Last path segment (`src/lib/sorter.ts` -> `sorter.ts`, `build/` -> `build`)
+ * undefined for a line with no path
+ */
+export function baseName(line: string): string | undefined {
+    const segments = pathSegments(line);
+    return segments.length > 0 ? segments[segments.length - 1] : undefined;
+}
+
+/**
+ * File extension without the dot, '' when there is none
+ * Dotfiles such as `.gitignore` have no extension; `.eslintrc.json` has `json`
+ */
+export function fileExtension(line: string): string | undefined {
+    const base = baseName(line);
+    if (base === undefined) {
+        return undefined;
+    }
+    const dot = base.lastIndexOf('.');
+    return dot > 0 ? base.slice(dot + 1) : '';
+}
+
+/**
+ * How many directories deep a path is (`a.ts` is 0, `src/lib/a.ts` is 2)
+ * undefined for a line with no path
+ */
+export function directoryDepth(line: string): number | undefined {
+    const segments = pathSegments(line);
+    return segments.length > 0 ? segments.length - 1 : undefined;
+}
@@ -0,0 +1,558 @@
+/**
+ * Core structural sorting for JS/TS source without VS Code dependencies
+ * Sorts the members of the object literal, enum, interface or type literal
+ * around a position, or the members of a union type. Members move as whole
+ * text, so comments above or beside a member, trailing commas and multi-line
+ * values come along unchanged.
+ * Pure logic only - no VS Code dependencies for unit testing compatibility.
+ */
+
+import { compareText, compareTextNatural } from './collation.js';
+
+/** A replacement for text[start, end) */
+export interface MemberSortResult {
+    start: number;
+    end: number;
+    text: string;
+}
+
+/** What each character of the source is; quote characters count as code */
+type CharKind = 'code' | 'string' | 'comment';
+
+interface Segment {
+    /** Whitespace before the member, kept at its position */
+    lead: string;
+    /** The member with its comments, which moves when sorting */
+    core: string;
+    /** Whitespace after the member, kept at its position */
+    trail: string;
+}
+
+const QUOTES = new Set(['"', "'", '`']);
+const OPENERS = new Set(['(', '[', '{']);
+const CLOSERS = new Set([')', ']', '}']);
+
+/** How much code before `{` is checked to tell a body from a block */
+const PREFIX_LENGTH = 300;
+// Text before `{` that makes it an object, enum, interface or type literal rather than a block
+const BODY_PREFIX =
+    /(?:[=:(,[?&|<]|\b(?:return|default|satisfies|as|yield)|\benum\s+[\w$]+|\binterface\s+[\w$]+(?:\s*<[^{}]*>)?(?:\s+extends\s+[^{}]+)?)\s*$/;
+const ENUM_PREFIX = /\benum\s+[\w$]+\s*$/;
+// A `case`/`default` clause or statement label before `{`, which then opens a block
+const STATEMENT_COLON = /(?:^|[;{}])\s*(?:case\b[^;{}]*|[\w$]+)\s*:\s*$/;
+// Code before the `=` of a type alias (`type X<T> =`)
+const TYPE_ALIAS = /\btype\s+[\w$]+\s*(?:<[^;{}]*>)?\s*=$/;
+// Code ending or a line starting with one of these continues the same member
+const CONTINUES_AFTER = /(?:[=:|&,+\-*/?<(.]|=>)$/;
+const CONTINUES_BEFORE = /^[|&.?:=]/;
+const MODIFIERS =
+    /^(?:(?:readonly|static|async|get|set|declare|public|private|protected)\s+|\*\s*)+/;
+const BLANK_LINE = /\n[^\S\n]*\n/;
+
+function classify(text: string): CharKind[] {
+    const kinds = new Array<CharKind>(text.length).fill('code');
+    let i = 0;
+    while (i < text.length) {
+        const char = text[i];
+        if (char === '/' && text[i + 1] === '/') {
+            const end = text.indexOf('\n', i);
+            const stop = end === -1 ? text.length : end;
+            kinds.fill('comment', i, stop);
+            i = stop;
+        } else if (char === '/' && text[i + 1] === '*') {
+            const end = text.indexOf('*/', i + 2);
+            const stop = end === -1 ? text.length : end + 2;
+            kinds.fill('comment', i, stop);
+            i = stop;
+        } else if (QUOTES.has(char)) {
+            let j = i + 1;
+            while (j < text.length && text[j] !== char) {
+                j += text[j] === '\\' ? 2 : 1;
+            }
+            kinds.fill('string', i + 1, Math.min(j, text.length));
+            i = j + 1;
+        } else {
+            i++;
+        }
+    }
+    return kinds;
+}
+
+/** Text without its comments */
+function stripComments(text: string, kinds = classify(text)): string {
+    let code = '';
+    for (let i = 0; i < text.length; i++) {
+        if (kinds[i] !== 'comment') code += text[i];
+    }
+    return code;
+}
+
+/** Index of the last code character that isn't whitespace, or -1 */
+function lastCodeIndex(text: string): number {
+    const kinds = classify(text);
+    for (let i = text.length - 1; i >= 0; i--) {
+        if (kinds[i] === 'code' && !/\s/.test(text[i])) {
+            return i;
+        }
+    }
+    return -1;
+}
+
+/** Index of the next code character in [from, end) that isn't whitespace, or -1 */
+function nextCodeIndex(text: string, kinds: CharKind[], from: number, end: number): number {
+    for (let i = from; i < end; i++) {
+        if (kinds[i] === 'code' && !/\s/.test(text[i])) {
+            return i;
+        }
+    }
+    return -1;
+}
+
+/** Index of the last code character before index that isn't whitespace, or -1 */
+function previousCodeIndex(text: string, kinds: CharKind[], index: number): number {
+    for (let i = index - 1; i >= 0; i--) {
+        if (kinds[i] === 'code' && !/\s/.test(text[i])) {
+            return i;
+        }
+    }
+    return -1;
+}
+
+/**
+ * Call visit(index) for every code character in [start, end) that is not nested
+ * inside brackets or generic type arguments (`Map<K, V>`), brackets excluded
+ */
+function forEachTopLevel(
+    text: string,
+    kinds: CharKind[],
+    start: number,
+    end: number,
+    visit: (index: number) => void,
+): void {
+    let depth = 0;
+    let angles = 0;
+    for (let i = start; i < end; i++) {
+        if (kinds[i] !== 'code') {
+            continue;
+        }
+        const char = text[i];
+        if (OPENERS.has(char)) {
+            depth++;
+        } else if (CLOSERS.has(char)) {
+            depth = Math.max(0, depth - 1);
+        } else if (char === '<' && i > 0 && /[\w$.]/.test(text[i - 1])) {
+            angles++;
+        } else if (char === '>' && angles > 0 && text[i - 1] !== '=') {
+            angles--;
+        } else if (depth === 0 && angles === 0) {
+            visit(i);
+        }
+    }
+}
+
+/** Open brackets (of any kind) that are still open at offset */
+function openBracketsAt(text: string, kinds: CharKind[], offset: number): number[] {
+    const open: number[] = [];
+    for (let i = 0; i < offset && i < text.length; i++) {
+        if (kinds[i] !== 'code') continue;
+        if (OPENERS.has(text[i])) open.push(i);
+        else if (CLOSERS.has(text[i])) open.pop();
+    }
+    return open;
+}
+
+/** Index of the bracket closing the one at open, or -1 */
+function findClose(text: string, kinds: CharKind[], open: number): number {
+    let depth = 0;
+    for (let i = open; i < text.length; i++) {
+        if (kinds[i] !== 'code') continue;
+        if (OPENERS.has(text[i])) depth++;
+        else if (CLOSERS.has(text[i]) && --depth === 0) return i;
+    }
+    return -1;
+}
+
+/** Whether a line break at the end of code ends it, given the next code character */
+function endsAtLineBreak(code: string, next: string | undefined): boolean {
+    return !CONTINUES_AFTER.test(code.trimEnd()) && !(next && CONTINUES_BEFORE.test(next));
+}
+
+function toSegment(text: string): Segment {
+    const core = text.trim();
+    const lead = text.slice(0, text.length - text.trimStart().length);
+    return { lead, core, trail: text.slice(lead.length + core.length) };
+}
+
+/**
+ * Segment text, turning a trailing `// comment` into a block comment when no line
+ * break follows it any more (it would otherwise swallow the code after it)
+ */
+function segmentText(segment: Segment): string {
+    const kinds = classify(segment.core);
+    const comment = segment.core.lastIndexOf('//');
+    let core = segment.core;
+    if (comment !== -1 && kinds[core.length - 1] === 'comment' && !segment.trail.includes('\n')) {
+        if (kinds.slice(comment).every((kind) => kind === 'comment')) {
+            core = `${core.slice(0, comment)}/* ${core.slice(comment + 2).trim()} */`;
+        }
+    }
+    return segment.lead + core + segment.trail;
+}
+
+function joinSegments(segments: Segment[], separator = ''): string {
+    return segments.map(segmentText).join(separator);
+}
+
+function hasCode(core: string): boolean {
+    return lastCodeIndex(core) !== -1;
+}
+
+function endsWithSeparator(core: string): boolean {
+    const char = core[lastCodeIndex(core)];
+    return char === ',' || char === ';';
+}
+
+/**
+ * Split the body [start, end) into one segment per member
+ * A member ends after a top-level `,` or `;` (taking any comment on the rest of
+ * that line), or at a line break when nothing suggests it continues.
+ */
+function splitMembers(text: string, kinds: CharKind[], start: number, end: number): Segment[] {
+    const cuts = [start];
+    let separator = -1;
+    let memberHasCode = false;
+
+    const startMember = (cut: number) => {
+        cuts.push(cut);
+        separator = -1;
+        memberHasCode = false;
+    };
+
+    forEachTopLevel(text, kinds, start, end, (i) => {
+        const char = text[i];
+        if (char === '\n') {
+            const next = nextCodeIndex(text, kinds, i + 1, end);
+            const code = stripComments(text.slice(cuts[cuts.length - 1], i));
+            if (
+                separator !== -1 ||
+                (memberHasCode && endsAtLineBreak(code, next === -1 ? undefined : text[next]))
+            ) {
+                startMember(i + 1);
+            }
+            return;
+        }
+        if (/\s/.test(char)) {
+            return;
+        }
+        if (separator !== -1) {
+            // More code on the same line: the next member starts right after the separator
+            startMember(separator + 1);
+        }
+        memberHasCode = true;
+        if (char === ',' || char === ';') {
+            separator = i;
+        }
+    });
+
+    cuts.push(end);
+    const segments: Segment[] = [];
+    for (let i = 0; i < cuts.length - 1; i++) {
+        segments.push(toSegment(text.slice(cuts[i], cuts[i + 1])));
+    }
+    return segments;
+}
+
+function memberKey(core: string): string {
+    const code = stripComments(core).trim().replace(MODIFIERS, '');
+    const quoted = /^(['"`])((?:\\.|(?!\1).)*)\1/.exec(code);
+    if (quoted) {
+        return quoted[2];
+    }
+    const computed = /^\[([^\]]*)\]/.exec(code);
+    if (computed) {
+        return computed[1].trim();
+    }
+    return /^[^\s:?!=(<,;]*/.exec(code)?.[0] ?? code;
+}
+
+/**
+ * Sort the cores of runs of movable segments, leaving whitespace in place
+ * Fixed segments stay where they are, and a segment that starts a group
+ * begins a new run
+ */
+function sortSegments(
+    segments: Segment[],
+    toKey: (core: string) => string,
+    isFixed: (segment: Segment) => boolean = () => false,
+    startsGroup: (segment: Segment) => boolean = () => false,
+): void {
+    let run: Segment[] = [];
+    const flush = () => {
+        const cores = run.map((segment) => ({ core: segment.core, key: toKey(segment.core) }));
+        cores.sort((a, b) => compareTextNatural(a.key, b.key) || compareText(a.key, b.key));
+        run.forEach((segment, i) => (segment.core = cores[i].core));
+        run = [];
+    };
+
+    for (const segment of segments) {
+        if (isFixed(segment) || startsGroup(segment)) {
+            flush();
+        }
+        if (!isFixed(segment)) {
+            run.push(segment);
+        }
+    }
+    flush();
+}
+
+/**
+ * Give every member but the last a separator when the original last member had
+ * none, so a missing trailing comma stays missing after sorting
+ */
+function fixSeparators(members: Segment[], lastHadSeparator: boolean): void {
+    const example = members.find((member) => endsWithSeparator(member.core));
+    if (lastHadSeparator || !example) {
+        return;
+    }
+    const separator = example.core[lastCodeIndex(example.core)];
+
+    members.forEach((member, i) => {
+        const last = lastCodeIndex(member.core);
+        const isLast = i === members.length - 1;
+        if (isLast && endsWithSeparator(member.core)) {
+            member.core = member.core.slice(0, last) + member.core.slice(last + 1);
+        } else if (!isLast && !endsWithSeparator(member.core)) {
+            member.core = member.core.slice(0, last + 1) + separator + member.core.slice(last + 1);
+        }
+    });
+}
+
+/** Code (without comments) just before index */
+function codeBefore(text: string, kinds: CharKind[], index: number): string {
+    const from = Math.max(0, index - PREFIX_LENGTH);
+    return stripComments(text.slice(from, index), kinds.slice(from, index));
+}
+
+/**
+ * Whether the bracket at open[i] (open brackets, outermost first) is a `{` that
+ * holds members rather than statements
+ */
+function isBody(text: string, kinds: CharKind[], open: number[], i: number): boolean {
+    const before = codeBefore(text, kinds, open[i]);
+    if (text[open[i]] !== '{' || !BODY_PREFIX.test(before)) {
+        return false;
+    }
+    // `a: {` is a member inside an object, type or parameter list, but a label
+    // (or `case`/`default` clause) among statements
+    if (STATEMENT_COLON.test(before)) {
+        return i > 0 && (text[open[i - 1]] !== '{' || isBody(text, kinds, open, i - 1));
+    }
+    return true;
+}
+
+/**
+ * Innermost `{ ... }` around offset that holds members rather than statements
+ */
+function findBody(
+    text: string,
+    kinds: CharKind[],
+    offset: number,
+): { open: number; close: number } | undefined {
+    const open = openBracketsAt(text, kinds, offset);
+    let i = open.length - 1;
+    while (i >= 0 && !isBody(text, kinds, open, i)) i--;
+    if (i < 0) {
+        return undefined;
+    }
+    const start = open[i];
+    const close = findClose(text, kinds, start);
+    return close === -1 ? undefined : { open: start, close };
+}
+
+/**
+ * Sort the members of the object literal, enum, interface or type literal
+ * containing offset. Spread members (`...defaults`) stay in place, since moving
+ * them changes which values win, and blank lines split the members into groups
+ * that are sorted separately.
+ * Returns undefined when offset is not inside such a body.
+ */
+export function sortMembersAt(text: string, offset: number): MemberSortResult | undefined {
+    const kinds = classify(text);
+    const body = findBody(text, kinds, offset);
+    if (!body) {
+        return undefined;
+    }
+    const start = body.open + 1;
+    const end = body.close;
+
+    const segments = splitMembers(text, kinds, start, end);
+    const members = segments.filter((segment) => hasCode(segment.core));
+    if (members.length < 2) {
+        return undefined;
+    }
+
+    if (ENUM_PREFIX.test(codeBefore(text, kinds, body.open))) {
+        if (members.some((member) => !stripComments(member.core).includes('='))) {
+            throw new Error('Sorting enum members without initializers would change their values.');
+        }
+    }
+
+    const lastHadSeparator = endsWithSeparator(members[members.length - 1].core);
+    sortSegments(
+        segments,
+        memberKey,
+        (segment) => !hasCode(segment.core) || stripComments(segment.core).trim().startsWith('...'),
+        (segment) => BLANK_LINE.test(segment.lead),
+    );
+    fixSeparators(members, lastHadSeparator);
+
+    return { start, end, text: joinSegments(segments) };
+}
+
+/** Generic `<` that is still open at offset, outside brackets opened after from, or -1 */
+function openAngleAt(text: string, kinds: CharKind[], from: number, offset: number): number {
+    const open: number[] = [];
+    let depth = 0;
+    for (let i = from; i < offset; i++) {
+        if (kinds[i] !== 'code') continue;
+        const char = text[i];
+        if (OPENERS.has(char)) depth++;
+        else if (CLOSERS.has(char)) depth = Math.max(0, depth - 1);
+        else if (depth > 0) continue;
+        else if (char === '<' && i > 0 && /[\w$.]/.test(text[i - 1])) open.push(i);
+        else if (char === '>' && text[i - 1] !== '=') open.pop();
+    }
+    return open.length > 0 ? open[open.length - 1] : -1;
+}
+
+interface TypeExpression {
+    start: number;
+    end: number;
+    /** Start of the whole expression when start follows an arrow (`(a) => T`) */
+    outerStart: number;
+    /** Index of the enclosing bracket or generic `<`, or -1 */
+    opener: number;
+}
+
+/**
+ * The type expression around offset: from the nearest top-level `=`, `=>`, `:`,
+ * `,` or `;` (or the enclosing bracket or generic `<`) up to the next one, or to
+ * a line break that doesn't continue the expression
+ */
+function findTypeExpression(text: string, kinds: CharKind[], offset: number): TypeExpression {
+    const open = openBracketsAt(text, kinds, offset);
+    let opener = open.length > 0 ? open[open.length - 1] : -1;
+    let regionStart = opener + 1;
+    const regionClose = opener === -1 ? -1 : findClose(text, kinds, opener);
+    let regionEnd = regionClose === -1 ? text.length : regionClose;
+
+    const angle = openAngleAt(text, kinds, regionStart, offset);
+    if (angle !== -1) {
+        let close = -1;
+        forEachTopLevel(text, kinds, angle + 1, regionEnd, (i) => {
+            if (close === -1 && text[i] === '>' && text[i - 1] !== '=') close = i;
+        });
+        opener = angle;
+        regionStart = angle + 1;
+        regionEnd = close === -1 ? regionEnd : close;
+    }
+
+    let start = regionStart;
+    let outerStart = regionStart;
+    let end = regionEnd;
+    forEachTopLevel(text, kinds, regionStart, regionEnd, (i) => {
+        if (end !== regionEnd) {
+            return;
+        }
+        const char = text[i];
+        const isBoundary =
+            char === ',' ||
+            char === ';' ||
+            char === ':' ||
+            (char === '=' && !/[=>]/.test(text[i + 1]) && !/[=!<>]/.test(text[i - 1]));
+        if (isBoundary) {
+            if (i < offset) start = outerStart = i + 1;
+            else end = i;
+        } else if (char === '=' && text[i + 1] === '>') {
+            if (i < offset) start = i + 2;
+            else end = i;
+        } else if (char === '\n' && i >= offset) {
+            const code = stripComments(text.slice(start, i)).trim();
+            const next = nextCodeIndex(text, kinds, i + 1, regionEnd);
+            if (code.length > 0 && endsAtLineBreak(code, next === -1 ? undefined : text[next])) {
+                end = i;
+            }
+        }
+    });
+    return { start, end, outerStart, opener };
+}
+
+/**
+ * Whether expr holds a type: it follows `type X =`, a `:` annotation or a generic
+ * `<`, or sits in a tuple, parenthesized type or type argument list that does
+ */
+function isTypePosition(text: string, kinds: CharKind[], expr: TypeExpression): boolean {
+    const before = previousCodeIndex(text, kinds, expr.outerStart);
+    const opener = expr.opener === -1 ? undefined : text[expr.opener];
+    if (before === -1) {
+        return false;
+    }
+    if (text[before] === ':' || opener === '<') {
+        return true;
+    }
+    if (text[before] === '=') {
+        return TYPE_ALIAS.test(codeBefore(text, kinds, before + 1));
+    }
+    if ((text[before] === ',' || before === expr.opener) && (opener === '(' || opener === '[')) {
+        return isTypePosition(text, kinds, findTypeExpression(text, kinds, expr.opener));
+    }
+    return false;
+}
+
+/**
+ * Sort the members of the union type around offset (`'b' | 'a'` -> `'a' | 'b'`)
+ * A leading `|`, as in multi-line unions, stays first.
+ * Returns undefined when offset is not inside a union of two or more members in
+ * a type position, so `a || b` and `a | b` in plain code are left alone.
+ */
+export function sortUnionAt(text: string, offset: number): MemberSortResult | undefined {
+    const kinds = classify(text);
+    const expr = findTypeExpression(text, kinds, offset);
+    const { start, end } = expr;
+    if (!isTypePosition(text, kinds, expr)) {
+        return undefined;
+    }
+
+    const pipes: number[] = [];
+    let logical = false;
+    forEachTopLevel(text, kinds, start, end, (i) => {
+        if (text[i] !== '|') return;
+        pipes.push(i);
+        // `a || b` is a value, not a union
+        logical ||= text[i - 1] === '|' || text[i + 1] === '|';
+    });
+    if (logical) {
+        return undefined;
+    }
+
+    // A leading `|` has no member before it
+    let bodyStart = start;
+    if (pipes.length > 0 && stripComments(text.slice(start, pipes[0])).trim().length === 0) {
+        bodyStart = pipes.shift()! + 1;
+    }
+    if (pipes.length === 0) {
+        return undefined;
+    }
+
+    const bounds = [bodyStart, ...pipes.map((pipe) => pipe + 1), end + 1];
+    const segments = bounds
+        .slice(0, -1)
+        .map((from, i) => toSegment(text.slice(from, bounds[i + 1] - 1)));
+    sortSegments(segments, (core) =>
+        stripComments(core)
+            .trim()
+            .replace(/^(['"`])(.*)\1$/s, '$2'),
+    );
+
+    return { start: bodyStart, end, text: joinSegments(segments, '|') };
+}
@@ -0,0 +1,199 @@
+import { describe, it } from 'bun:test';
+import * as assert from 'assert';
+import { sortMembersAt, sortUnionAt, type MemberSortResult } from './member-sorter-core.js';
+
+type Sorter = (text: string, offset: number) => MemberSortResult | undefined;
+
+/** Sort with the cursor at the `@` marker and return the whole updated text */
+function sortAtMarker(sorter: Sorter, marked: string): string | undefined {
+    const offset = marked.indexOf('@');
+    const text = marked.replace('@', '');
+    const result = sorter(text, offset);
+    return result && text.slice(0, result.start) + result.text + text.slice(result.end);
+}
+
+describe('Member Sorting', () => {
+    it('should sort object keys keeping comments and multi-line values with their member', () => {
+        const input = [
+            'const config = {',
+            '    // the last one',
+            '    zed: 1, // trailing',
+            '    beta: {',
+            '        y: 2,',
+            '    },',
+            '    alpha: () => {',
+            '        return 1;@',
+            '    },',
+            '};',
+        ].join('\n');
+
+        const expected = [
+            'const config = {',
+            '    alpha: () => {',
+            '        return 1;',
+            '    },',
+            '    beta: {',
+            '        y: 2,',
+            '    },',
+            '    // the last one',
+            '    zed: 1, // trailing',
+            '};',
+        ].join('\n');
+
+        assert.strictEqual(sortAtMarker(sortMembersAt, input), expected);
+    });
+
+    it('should keep a missing trailing comma missing', () => {
+        assert.strictEqual(
+            sortAtMarker(sortMembersAt, 'const o = {\n    b: 1,\n    a: 2@\n};'),
+            'const o = {\n    a: 2,\n    b: 1\n};',
+        );
+        assert.strictEqual(
+            sortAtMarker(sortMembersAt, 'const o = { c: [1, 2], @a: 1 };'),
+            'const o = { a: 1, c: [1, 2] };',
+        );
+    });
+
+    it('should sort interface members, ignoring modifiers and generic commas', () => {
+        const input = [
+            'interface Foo<T> extends Bar {',
+            '    readonly z: Map<string, number>;',
+            '    @b?: string;',
+            '    a(x: number): void;',
+            '}',
+        ].join('\n');
+
+        const expected = [
+            'interface Foo<T> extends Bar {',
+            '    a(x: number): void;',
+            '    b?: string;',
+            '    readonly z: Map<string, number>;',
+            '}',
+        ].join('\n');
+
+        assert.strictEqual(sortAtMarker(sortMembersAt, input), expected);
+    });
+
+    it('should keep spreads in place and sort blank-line groups separately', () => {
+        const input = [
+            'const x = {',
+            '    d: 1,',
+            '    c: 2,',
+            '    ...base,',
+            '    b: 3,',
+            '    a: 4,',
+            '',
+            '    z: 5,',
+            '    y: 6,@',
+            '};',
+        ].join('\n');
+
+        const expected = [
+            'const x = {',
+            '    c: 2,',
+            '    d: 1,',
+            '    ...base,',
+            '    a: 4,',
+            '    b: 3,',
+            '',
+            '    y: 6,',
+            '    z: 5,',
+            '};',
+        ].join('\n');
+
+        assert.strictEqual(sortAtMarker(sortMembersAt, input), expected);
+    });
+
+    it('should refuse enums whose values depend on member order', () => {
+        assert.throws(() => sortAtMarker(sortMembersAt, 'enum E { B, @A }'));
+        assert.strictEqual(
+            sortAtMarker(sortMembersAt, "enum E { B = 'b', @A = 'a' }"),
+            "enum E { A = 'a', B = 'b' }",
+        );
+    });
+
+    it('should not treat statement blocks as objects', () => {
+        assert.strictEqual(
+            sortAtMarker(sortMembersAt, 'function f() {\n    b();@\n    a();\n}'),
+            undefined,
+        );
+    });
+
+    it('should not treat case clauses or labelled blocks as objects', () => {
+        const clause =
+            'switch (x) {\n    case 1: {\n        save();@\n        validate();\n        break;\n    }\n}';
+        assert.strictEqual(sortAtMarker(sortMembersAt, clause), undefined);
+        assert.strictEqual(
+            sortAtMarker(sortMembersAt, 'default: {\n    b();@\n    a();\n}'),
+            undefined,
+        );
+        assert.strictEqual(
+            sortAtMarker(sortMembersAt, 'outer: {\n    b();@\n    a();\n}'),
+            undefined,
+        );
+        assert.strictEqual(
+            sortAtMarker(sortMembersAt, 'const o = {\n    default: { b: 1,@ a: 2 },\n};'),
+            'const o = {\n    default: { a: 2, b: 1 },\n};',
+        );
+    });
+});
+
+describe('Union Member Sorting', () => {
+    it('should sort a single-line union', () => {
+        assert.strictEqual(
+            sortAtMarker(sortUnionAt, "type U = 'c' | 'a'@ | 'b';"),
+            "type U = 'a' | 'b' | 'c';",
+        );
+    });
+
+    it('should keep a leading pipe first and nested unions whole', () => {
+        const input = [
+            'type U =',
+            "    | 'c'",
+            '    | { a: 1 | 2 }@',
+            "    | 'a';",
+            'const x = 1;',
+        ].join('\n');
+
+        const expected = [
+            'type U =',
+            '    | { a: 1 | 2 }',
+            "    | 'a'",
+            "    | 'c';",
+            'const x = 1;',
+        ].join('\n');
+
+        assert.strictEqual(sortAtMarker(sortUnionAt, input), expected);
+    });
+
+    it('should sort a property type without touching its neighbours', () => {
+        assert.strictEqual(
+            sortAtMarker(sortUnionAt, "interface I {\n    kind: 'z' | @'y';\n    a: 'q' | 'p';\n}"),
+            "interface I {\n    kind: 'y' | 'z';\n    a: 'q' | 'p';\n}",
+        );
+    });
+
+    it('should leave logical and bitwise or in code alone', () => {
+        assert.strictEqual(sortAtMarker(sortUnionAt, 'if (a |@| b) {}'), undefined);
+        assert.strictEqual(sortAtMarker(sortUnionAt, 'const x = a @|| b;'), undefined);
+        assert.strictEqual(sortAtMarker(sortUnionAt, 'const flags = b @| a;'), undefined);
+    });
+
+    it('should sort the return type of a function type', () => {
+        assert.strictEqual(
+            sortAtMarker(sortUnionAt, "type F = (a: string) => 'b' |@ 'a';"),
+            "type F = (a: string) => 'a' | 'b';",
+        );
+    });
+
+    it('should sort unions in type arguments and tuples', () => {
+        assert.strictEqual(
+            sortAtMarker(sortUnionAt, "let m: Map<string, 'b' @| 'a'>;"),
+            "let m: Map<string, 'a' | 'b'>;",
+        );
+        assert.strictEqual(
+            sortAtMarker(sortUnionAt, "type T = [number, 'b' @| 'a'];"),
+            "type T = [number, 'a' | 'b'];",
+        );
+    });
+});
@@ -0,0 +1,59 @@
+import * as vscode from 'vscode';
+import { sortMembersAt, sortUnionAt, type MemberSortResult } from './member-sorter-core.js';
+
+type MemberSorter = (text: string, offset: number) => MemberSortResult | undefined;
+
+async function applyMemberSort(
+    editor: vscode.TextEditor,
+    sorter: MemberSorter,
+    notFoundMessage: string,
+): Promise<void> {
+    const document = editor.document;
+
+    try {
+        const result = sorter(document.getText(), document.offsetAt(editor.selection.active));
+        if (!result) {
+            vscode.window.showInformationMessage(`Line King: ${notFoundMessage}`);
+            return;
+        }
+
+        const range = new vscode.Range(
+            document.positionAt(result.start),
+            document.positionAt(result.end),
+        );
+        if (document.getText(range) === result.text) {
+            return;
+        }
+
+        await editor.edit((editBuilder: vscode.TextEditorEdit) => {
+            editBuilder.replace(range, result.text);
+        });
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        vscode.window.showErrorMessage(
+            `Line King: Unable to sort members. ${errorMessage.substring(0, 100)}`,
+        );
+    }
+}
+
+/**
+ * Sort the members of the object literal, enum, interface or type literal at the cursor
+ */
+export function sortMembers(editor: vscode.TextEditor): Promise<void> {
+    return applyMemberSort(
+        editor,
+        sortMembersAt,
+        'Place the cursor inside an object literal, enum or interface to sort its members.',
+    );
+}
+
+/**
+ * Sort the members of the union type at the cursor
+ */
+export function sortUnionMembers(editor: vscode.TextEditor): Promise<void> {
+    return applyMemberSort(
+        editor,
+        sortUnionAt,
+        'Place the cursor inside a union type (A | B) to sort its members.',
+    );
+}
@@ -0,0 +1,37 @@
+/**
+ * Number detection for numeric value sorting
+ * Reads signed integers, decimals, scientific notation, thousands separators
+ * (1,234,567.8) and hex literals (0x1F) as real values.
+ * Pure logic only - no VS Code dependencies for unit testing compatibility.
+ */
+
+import { REGEX } from '../constants.js';
+
+const HEX_RADIX = 16;
+
+function toValue(token: string): number {
+    const negative = token.startsWith('-');
+    const unsigned = token.replace(/^[-+]/, '');
+    const magnitude = /^0x/i.test(unsigned)
+        ? parseInt(unsigned.slice(2), HEX_RADIX)
+        : Number(unsigned.replace(/,/g, ''));
+    return negative ? -magnitude : magnitude;
+}
+
+/**
+ * Find the nth number in a line
+ *
+ * @param line - Text to search
+ * @param occurrence - 1-based index of the number to read (default: first)
+ * @returns The numeric value, or undefined if the line has fewer numbers
+ */
+export function findNumber(line: string, occurrence = 1): number | undefined {
+    let count = 0;
+    for (const match of line.matchAll(REGEX.NUMBER)) {
+        count++;
+        if (count === occurrence) {
+            return toValue(match[0]);
+        }
+    }
+    return undefined;
+}
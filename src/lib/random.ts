@@ -0,0 +1,48 @@
+/**
+ * Seeded pseudo-random numbers for reproducible shuffles and samples
+ * The same seed gives the same sequence on every machine and VS Code version.
+ * Pure logic only - no VS Code dependencies for unit testing compatibility.
+ */
+
+/** Returns a float in [0, 1), like Math.random */
+export type RandomSource = () => number;
+
+const UINT32_RANGE = 2 ** 32;
+const SEED_LENGTH = 8;
+const SEED_ALPHABET = 'abcdefghijklmnopqrstuvwxyz0123456789';
+
+/**
+ * FNV-1a hash of a seed string, so any text (a word, a date, a ticket ID) works as a seed
+ */
+function hashSeed(seed: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < seed.length; i++) {
+        hash ^= seed.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * Create a deterministic random source (mulberry32) from a seed string
+ */
+export function createSeededRandom(seed: string): RandomSource {
+    let state = hashSeed(seed);
+    return () => {
+        state = (state + 0x6d2b79f5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), 1 | state);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / UINT32_RANGE;
+    };
+}
+
+/**
+ * A short random seed that is easy to read back and share
+ */
+export function generateSeed(): string {
+    let seed = '';
+    for (let i = 0; i < SEED_LENGTH; i++) {
+        seed += SEED_ALPHABET[Math.floor(Math.random() * SEED_ALPHABET.length)];
+    }
+    return seed;
+}
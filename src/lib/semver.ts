@@ -0,0 +1,71 @@
+/**
+ * Semantic version parsing and SemVer 2.0 precedence
+ * Pure logic only - no VS Code dependencies for unit testing compatibility.
+ */
+
+import { REGEX } from '../constants.js';
+
+export interface SemVer {
+    major: number;
+    minor: number;
+    patch: number;
+    /** Dot-separated pre-release identifiers, empty for a release version */
+    prerelease: string[];
+}
+
+const NUMERIC_IDENTIFIER = /^\d+$/;
+
+/**
+ * Find the first semantic version in a line, e.g. `lodash@4.17.21`, `v2.3.1` or `1.0.0-beta.2+build.5`
+ * Build metadata is matched but discarded, as it plays no part in precedence
+ */
+export function findSemVer(line: string): SemVer | undefined {
+    const match = line.match(REGEX.SEMVER);
+    if (!match) {
+        return undefined;
+    }
+    return {
+        major: parseInt(match[1], 10),
+        minor: parseInt(match[2], 10),
+        patch: parseInt(match[3], 10),
+        prerelease: match[4] ? match[4].split('.') : [],
+    };
+}
+
+function compareIdentifiers(a: string, b: string): number {
+    const aNumeric = NUMERIC_IDENTIFIER.test(a);
+    const bNumeric = NUMERIC_IDENTIFIER.test(b);
+    if (aNumeric && bNumeric) {
+        return parseInt(a, 10) - parseInt(b, 10);
+    }
+    // Numeric identifiers always have lower precedence than alphanumeric ones
+    if (aNumeric !== bNumeric) {
+        return aNumeric ? -1 : 1;
+    }
+    return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Compare two versions by SemVer 2.0 precedence
+ * 1.0.0-alpha < 1.0.0-alpha.1 < 1.0.0-beta < 1.0.0-beta.2 < 1.0.0-rc.1 < 1.0.0
+ */
+export function compareSemVer(a: SemVer, b: SemVer): number {
+    const core = a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+    if (core !== 0) {
+        return core;
+    }
+
+    // A release version has higher precedence than any of its pre-releases
+    if (a.prerelease.length === 0 || b.prerelease.length === 0) {
+        return b.prerelease.length - a.prerelease.length;
+    }
+
+    const length = Math.min(a.prerelease.length, b.prerelease.length);
+    for (let i = 0; i < length; i++) {
+        const result = compareIdentifiers(a.prerelease[i], b.prerelease[i]);
+        if (result !== 0) {
+            return result;
+        }
+    }
+    return a.prerelease.length - b.prerelease.length;
+}
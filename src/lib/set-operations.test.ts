@@ -0,0 +1,29 @@
+import { describe, it } from 'bun:test';
+import * as assert from 'assert';
+import { applySetOperation, splitExternalLines } from './set-operations.js';
+
+describe('Set Operations', () => {
+    const a = ['react', 'lodash', 'react', 'zod'];
+    const b = ['zod', 'express', 'lodash', 'express'];
+
+    it('should combine line lists as sets in order of first appearance', () => {
+        assert.deepStrictEqual(applySetOperation(a, b, 'union'), [
+            'react',
+            'lodash',
+            'zod',
+            'express',
+        ]);
+        assert.deepStrictEqual(applySetOperation(a, b, 'intersection'), ['lodash', 'zod']);
+        assert.deepStrictEqual(applySetOperation(a, b, 'difference'), ['react']);
+        assert.deepStrictEqual(applySetOperation(a, b, 'symmetricDifference'), [
+            'react',
+            'express',
+        ]);
+    });
+
+    it('should split clipboard text without a trailing empty line', () => {
+        assert.deepStrictEqual(splitExternalLines('a\r\nb\r\n'), ['a', 'b']);
+        assert.deepStrictEqual(splitExternalLines('a\n\nb'), ['a', '', 'b']);
+        assert.deepStrictEqual(splitExternalLines(''), ['']);
+    });
+});
@@ -0,0 +1,46 @@
+/**
+ * Set operations on line lists, like `comm` on two files
+ * Results hold each line once, in order of first appearance (lines of A first).
+ * Pure logic only - no VS Code dependencies for unit testing compatibility.
+ */
+
+import { removeDuplicateLines } from './cleaner.js';
+
+export type SetOperation = 'union' | 'intersection' | 'difference' | 'symmetricDifference';
+
+/**
+ * Combine two line lists as sets
+ * - union: lines in A or B
+ * - intersection: lines in both A and B
+ * - difference: lines in A but not in B (A − B)
+ * - symmetricDifference: lines in exactly one of A and B
+ */
+export function applySetOperation(a: string[], b: string[], operation: SetOperation): string[] {
+    const inA = new Set(a);
+    const inB = new Set(b);
+    switch (operation) {
+        case 'union':
+            return removeDuplicateLines([...a, ...b]);
+        case 'intersection':
+            return removeDuplicateLines(a.filter((line) => inB.has(line)));
+        case 'difference':
+            return removeDuplicateLines(a.filter((line) => !inB.has(line)));
+        case 'symmetricDifference':
+            return removeDuplicateLines([
+                ...a.filter((line) => !inB.has(line)),
+                ...b.filter((line) => !inA.has(line)),
+            ]);
+    }
+}
+
+/**
+ * Lines of text from outside the editor, such as the clipboard
+ * Accepts LF and CRLF; a final line break doesn't add an empty line.
+ */
+export function splitExternalLines(text: string): string[] {
+    const lines = text.split(/\r?\n/);
+    if (lines.length > 1 && lines[lines.length - 1] === '') {
+        lines.pop();
+    }
+    return lines;
+}
@@ -0,0 +1,451 @@
+import { afterEach, describe, it } from 'bun:test';
+import * as assert from 'assert';
+import { configureCollation, DEFAULT_COLLATION } from './collation.js';
+import { getField, parseDelimiterName, splitFields } from './fields.js';
+import { findIPAddress, parseIPAddress } from './ip-address.js';
+import * as sorter from './sorter.js';
+
+describe('Field Extraction', () => {
+    it('should split quoted CSV fields containing delimiters', () => {
+        assert.deepStrictEqual(splitFields('1,"Smith, John","say ""hi"""', ','), [
+            '1',
+            'Smith, John',
+            'say "hi"',
+        ]);
+    });
+
+    it('should split on runs of whitespace', () => {
+        assert.deepStrictEqual(splitFields('  a \t b   c ', 'whitespace'), ['a', 'b', 'c']);
+    });
+
+    it('should split on a regular expression', () => {
+        assert.deepStrictEqual(splitFields('a ; b,c', /\s*[;,]\s*/), ['a', 'b', 'c']);
+    });
+
+    it('should return undefined for a missing column', () => {
+        assert.strictEqual(getField('a,b', ',', 3), undefined);
+        assert.strictEqual(getField('a,b', ',', 2), 'b');
+    });
+
+    it('should resolve delimiter names and treat anything else as a regular expression', () => {
+        assert.strictEqual(parseDelimiterName(' Tab '), '\t');
+        assert.deepStrictEqual(parseDelimiterName('constructor'), /constructor/);
+    });
+});
+
+describe('Column Sorting', () => {
+    it('should sort by a CSV column with natural comparison', () => {
+        const input = ['a,item10', 'b,item2', '"c, d",item1'];
+        const expected = ['"c, d",item1', 'b,item2', 'a,item10'];
+        assert.deepStrictEqual(
+            sorter.sortByColumn(input, {
+                delimiter: ',',
+                column: 2,
+                comparator: 'natural',
+                direction: 'asc',
+            }),
+            expected,
+        );
+    });
+
+    it('should keep lines missing the column at the end in original order', () => {
+        const input = ['z', 'x 2', 'y', 'w 1'];
+        const expected = ['x 2', 'w 1', 'z', 'y'];
+        assert.deepStrictEqual(
+            sorter.sortByColumn(input, {
+                delimiter: 'whitespace',
+                column: 2,
+                comparator: 'string',
+                direction: 'desc',
+            }),
+            expected,
+        );
+    });
+
+    it('should sort a tab-separated column by IP address', () => {
+        const input = ['web\t10.0.0.10', 'db\t10.0.0.2', 'none\tn/a'];
+        const expected = ['db\t10.0.0.2', 'web\t10.0.0.10', 'none\tn/a'];
+        assert.deepStrictEqual(
+            sorter.sortByColumn(input, {
+                delimiter: '\t',
+                column: 2,
+                comparator: 'ip',
+                direction: 'asc',
+            }),
+            expected,
+        );
+    });
+});
+
+describe('Multi-Key Sorting', () => {
+    it('should parse a sort spec with defaults', () => {
+        assert.deepStrictEqual(sorter.parseSortSpec('2:natural:asc, 1:desc:insensitive,3'), [
+            { column: 2, comparator: 'natural', direction: 'asc' },
+            { column: 1, comparator: 'insensitive', direction: 'desc' },
+            { column: 3, comparator: 'string', direction: 'asc' },
+        ]);
+    });
+
+    it('should reject invalid sort specs', () => {
+        assert.throws(() => sorter.parseSortSpec('0:natural'), /Invalid column/);
+        assert.throws(() => sorter.parseSortSpec('1:sideways'), /Unknown option/);
+        assert.throws(() => sorter.parseSortSpec(' , '), /empty/);
+    });
+
+    it('should sort by several keys with per-key direction', () => {
+        const input = ['b,v10', 'A,v2', 'c,v2', 'a,v10'];
+        const keys = sorter.parseSortSpec('2:natural:asc,1:insensitive:desc');
+        const expected = ['c,v2', 'A,v2', 'b,v10', 'a,v10'];
+        assert.deepStrictEqual(sorter.sortByKeys(input, keys, ','), expected);
+    });
+
+    it('should keep full ties in original order', () => {
+        const input = ['x 1 first', 'y 0', 'x 1 second'];
+        const keys = sorter.parseSortSpec('1,2:natural');
+        const expected = ['x 1 first', 'x 1 second', 'y 0'];
+        assert.deepStrictEqual(sorter.sortByKeys(input, keys, 'whitespace'), expected);
+    });
+});
+
+describe('Regex Key Sorting', () => {
+    it('should sort by a captured ticket number numerically', () => {
+        const input = ['fix PROJ-120 login', 'no ticket', 'PROJ-9 docs', 'also none', 'PROJ-45'];
+        const expected = ['PROJ-9 docs', 'PROJ-45', 'fix PROJ-120 login', 'no ticket', 'also none'];
+        assert.deepStrictEqual(
+            sorter.sortByRegex(input, {
+                pattern: /PROJ-(\d+)/,
+                comparator: 'numeric',
+                direction: 'asc',
+            }),
+            expected,
+        );
+    });
+
+    it('should use the whole match when there is no capture group', () => {
+        const input = ['b-v2', 'a-v10', 'c-v1'];
+        const expected = ['a-v10', 'b-v2', 'c-v1'];
+        assert.deepStrictEqual(
+            sorter.sortByRegex(input, {
+                pattern: /v\d+/,
+                comparator: 'natural',
+                direction: 'desc',
+            }),
+            expected,
+        );
+    });
+});
+
+describe('IP Address Sorting', () => {
+    it('should sort IPv4, IPv6 and CIDR blocks numerically', () => {
+        const input = [
+            'allow 2001:db8::1',
+            'allow 10.0.0.1',
+            'allow 10.0.0.0/8',
+            'allow ::1',
+            'allow ::ffff:10.0.0.1',
+            'allow 10.0.0.0',
+            'allow fe80::1%eth0/64',
+        ];
+        const expected = [
+            'allow 10.0.0.0/8',
+            'allow 10.0.0.0',
+            'allow 10.0.0.1',
+            'allow ::1',
+            'allow ::ffff:10.0.0.1',
+            'allow 2001:db8::1',
+            'allow fe80::1%eth0/64',
+        ];
+        assert.deepStrictEqual(sorter.sortIP(input), expected);
+    });
+
+    it('should put invalid addresses in the non-IP group', () => {
+        const input = ['999.1.1.1', 'b', '1.1.1.1', 'a'];
+        const expected = ['1.1.1.1', '999.1.1.1', 'a', 'b'];
+        assert.deepStrictEqual(sorter.sortIP(input), expected);
+    });
+
+    it('should parse compressed and embedded IPv6 forms', () => {
+        assert.strictEqual(parseIPAddress('::')?.value, 0n);
+        assert.strictEqual(parseIPAddress('::ffff:1.2.3.4')?.value, 0xffff01020304n);
+        assert.deepStrictEqual(parseIPAddress('fe80::1%eth0/64'), {
+            version: 6,
+            value: 0xfe800000000000000000000000000001n,
+            prefix: 64,
+            zone: 'eth0',
+        });
+        assert.strictEqual(parseIPAddress('1:2:3'), undefined);
+        assert.strictEqual(parseIPAddress('10.0.0.0/33'), undefined);
+        assert.strictEqual(findIPAddress('at 12:30:45 from 10.1.2.3:8080')?.value, 0x0a010203n);
+    });
+});
+
+describe('Semantic Version Sorting', () => {
+    it('should order pre-releases by SemVer precedence', () => {
+        const input = [
+            '1.0.0',
+            '1.0.0-rc.1',
+            '1.0.0-beta',
+            '1.0.0-alpha.beta',
+            '1.0.0-alpha.1',
+            '1.0.0-beta.11',
+            '1.0.0-alpha',
+            '1.0.0-beta.2',
+        ];
+        const expected = [
+            '1.0.0-alpha',
+            '1.0.0-alpha.1',
+            '1.0.0-alpha.beta',
+            '1.0.0-beta',
+            '1.0.0-beta.2',
+            '1.0.0-beta.11',
+            '1.0.0-rc.1',
+            '1.0.0',
+        ];
+        assert.deepStrictEqual(sorter.sortSemVerAsc(input), expected);
+    });
+
+    it('should find versions inside lines and ignore build metadata', () => {
+        const input = ['no version', 'v2.3.1+build.9', 'lodash@4.17.21', 'v2.3.1', 'react@18.2.0'];
+        const expected = [
+            'react@18.2.0',
+            'lodash@4.17.21',
+            'v2.3.1+build.9',
+            'v2.3.1',
+            'no version',
+        ];
+        assert.deepStrictEqual(sorter.sortSemVerDesc(input), expected);
+    });
+});
+
+describe('Date Sorting', () => {
+    it('should order mixed date formats chronologically', () => {
+        const input = [
+            'Tue, 2 Jan 2024 10:00:00 +0000 second',
+            '1704067200 epoch seconds (2024-01-01)',
+            '2024-01-03T09:00:00Z third',
+            'no date here',
+            '1704326400000 epoch ms (2024-01-04)',
+            '2024-01-02 11:00 later on the second',
+        ];
+        const expected = [
+            '1704067200 epoch seconds (2024-01-01)',
+            'Tue, 2 Jan 2024 10:00:00 +0000 second',
+            '2024-01-02 11:00 later on the second',
+            '2024-01-03T09:00:00Z third',
+            '1704326400000 epoch ms (2024-01-04)',
+            'no date here',
+        ];
+        assert.deepStrictEqual(sorter.sortDateAsc(input), expected);
+    });
+
+    it('should resolve ambiguous numeric dates with the configured order', () => {
+        const input = ['03/04/2024', '02/05/2024', '25/03/2024'];
+        assert.deepStrictEqual(sorter.sortDateAsc(input, 'dmy'), [
+            '25/03/2024',
+            '03/04/2024',
+            '02/05/2024',
+        ]);
+        assert.deepStrictEqual(sorter.sortDateAsc(input, 'mdy'), [
+            '02/05/2024',
+            '03/04/2024',
+            '25/03/2024',
+        ]);
+    });
+
+    it('should apply time zone offsets', () => {
+        const input = ['2024-01-01T10:00:00+02:00 b', '2024-01-01T09:00:00Z a'];
+        assert.deepStrictEqual(sorter.sortDateDesc(input), input.slice().reverse());
+    });
+});
+
+describe('Numeric Value Sorting', () => {
+    it('should sort by real numeric value', () => {
+        const input = ['1e3', '0.5', '-2', 'none', '-10', '1,234.5', '0x10', 'item-5'];
+        const expected = ['-10', '-2', '0.5', 'item-5', '0x10', '1e3', '1,234.5', 'none'];
+        assert.deepStrictEqual(sorter.sortNumericAsc(input), expected);
+    });
+
+    it('should sort by a chosen number in the line', () => {
+        const input = ['a 1 30', 'b 2 -4', 'c 3', 'd 4 2.5'];
+        const expected = ['a 1 30', 'd 4 2.5', 'b 2 -4', 'c 3'];
+        assert.deepStrictEqual(sorter.sortNumericDesc(input, 2), expected);
+    });
+
+    it('should find numbers right after a comma in CSV lines', () => {
+        assert.deepStrictEqual(sorter.sortNumericAsc(['b,10', 'a,2', 'c,-3']), [
+            'c,-3',
+            'a,2',
+            'b,10',
+        ]);
+        assert.deepStrictEqual(sorter.sortNumericAsc(['apple,5', 'a,2.5']), ['a,2.5', 'apple,5']);
+    });
+});
+
+describe('Hierarchical Sorting', () => {
+    it('should sort siblings at every depth and keep children under their parent', () => {
+        const input = ['- b', '  - z', '  - y', '- a', '  - x', '    - 2', '    - 1', '', '- c'];
+        const expected = ['- a', '  - x', '    - 1', '    - 2', '', '- b', '  - y', '  - z', '- c'];
+        assert.deepStrictEqual(
+            sorter.sortTree(input, { comparator: 'string', direction: 'asc' }),
+            expected,
+        );
+    });
+
+    it('should treat tab and space indentation on the same scale', () => {
+        const input = ['root', '\tb', '    a', '\t\tchild of a', 'top', ''];
+        const expected = ['root', '    a', '\t\tchild of a', '\tb', 'top', ''];
+        assert.deepStrictEqual(
+            sorter.sortTree(input, { comparator: 'natural', direction: 'asc' }),
+            expected,
+        );
+    });
+
+    it('should measure tabs with the given tab size', () => {
+        const input = ['root', '  b', '\ta'];
+        assert.deepStrictEqual(
+            sorter.sortTree(input, { comparator: 'string', direction: 'asc', tabSize: 2 }),
+            ['root', '\ta', '  b'],
+        );
+        assert.deepStrictEqual(
+            sorter.sortTree(input, { comparator: 'string', direction: 'asc' }),
+            input,
+        );
+    });
+});
+
+describe('Unique Sorting', () => {
+    it('should sort and drop exact duplicates in either direction', () => {
+        const input = ['b', 'a', 'b', 'c', 'a'];
+        assert.deepStrictEqual(sorter.sortUnique(input), ['a', 'b', 'c']);
+        assert.deepStrictEqual(sorter.sortUniqueDesc(input), ['c', 'b', 'a']);
+        assert.deepStrictEqual(sorter.sortUniqueNatural(['x10', 'x2', 'x10']), ['x2', 'x10']);
+    });
+
+    it('should keep the first or last spelling of case-insensitive duplicates', () => {
+        const input = ['Apple', 'banana', 'APPLE', 'apple'];
+        assert.deepStrictEqual(sorter.sortUniqueInsensitive(input), ['Apple', 'banana']);
+        assert.deepStrictEqual(sorter.sortUniqueInsensitive(input, 'last'), ['apple', 'banana']);
+    });
+
+    it('should collapse lines that differ only in whitespace', () => {
+        const input = ['  b', 'a  b', 'a b', 'b '];
+        assert.deepStrictEqual(sorter.sortUniqueIgnoreWhitespace(input), ['a  b', '  b']);
+        assert.deepStrictEqual(sorter.sortUniqueIgnoreWhitespaceDesc(input, 'last'), ['b ', 'a b']);
+    });
+});
+
+describe('Collation', () => {
+    afterEach(() => configureCollation(DEFAULT_COLLATION));
+
+    it('should follow the configured locale', () => {
+        const input = ['ö', 'z', 'a'];
+        configureCollation({ ...DEFAULT_COLLATION, locale: 'de' });
+        assert.deepStrictEqual(sorter.sortAsc(input), ['a', 'ö', 'z']);
+        configureCollation({ ...DEFAULT_COLLATION, locale: 'sv' });
+        assert.deepStrictEqual(sorter.sortAsc(input), ['a', 'z', 'ö']);
+    });
+
+    it('should honour caseFirst and ignorePunctuation', () => {
+        configureCollation({ ...DEFAULT_COLLATION, locale: 'en', caseFirst: 'upper' });
+        assert.deepStrictEqual(sorter.sortAsc(['a', 'A']), ['A', 'a']);
+        configureCollation({ ...DEFAULT_COLLATION, locale: 'en', ignorePunctuation: true });
+        assert.deepStrictEqual(sorter.sortAsc(['b', '-a']), ['-a', 'b']);
+    });
+
+    it('should compare code points in binary mode', () => {
+        configureCollation({ ...DEFAULT_COLLATION, binary: true });
+        assert.deepStrictEqual(sorter.sortAsc(['b', 'a', 'B', 'é', '😀', '￿']), [
+            'B',
+            'a',
+            'b',
+            'é',
+            '￿',
+            '😀',
+        ]);
+        assert.deepStrictEqual(sorter.sortNaturalAsc(['x10', 'x2', 'X1']), ['X1', 'x2', 'x10']);
+        assert.deepStrictEqual(sorter.sortAscInsensitive(['b', 'A']), ['A', 'b']);
+    });
+});
+
+describe('Word and Path Key Sorting', () => {
+    const sortBy = (
+        lines: string[],
+        key: sorter.KeyComparatorName,
+        direction: sorter.SortDirection = 'asc',
+    ) => sorter.sortByKey(lines, (line) => line, sorter.getKeyComparator(key), direction);
+
+    it('should sort by word count and last word', () => {
+        assert.deepStrictEqual(sortBy(['a b c', 'a', '', 'a b'], 'words'), [
+            '',
+            'a',
+            'a b',
+            'a b c',
+        ]);
+        assert.deepStrictEqual(sortBy(['x zeta', 'alpha', '   ', 'y beta'], 'lastword'), [
+            'alpha',
+            'y beta',
+            'x zeta',
+            '   ',
+        ]);
+    });
+
+    it('should group paths by extension, files without one first', () => {
+        const input = ['src/b.ts', 'README.MD', '.gitignore', 'a.ts', 'docs/x.md', 'Makefile'];
+        const expected = ['.gitignore', 'Makefile', 'docs/x.md', 'README.MD', 'a.ts', 'src/b.ts'];
+        assert.deepStrictEqual(sortBy(input, 'extension'), expected);
+    });
+
+    it('should sort quoted import paths by basename and depth', () => {
+        const input = ["'./lib/zeta.js',", "'../a/b/alpha.js',", "'./main.js';", 'build/'];
+        assert.deepStrictEqual(sortBy(input, 'basename'), [
+            "'../a/b/alpha.js',",
+            'build/',
+            "'./main.js';",
+            "'./lib/zeta.js',",
+        ]);
+        assert.deepStrictEqual(sortBy(input, 'depth', 'desc'), [
+            "'../a/b/alpha.js',",
+            "'./lib/zeta.js',",
+            "'./main.js';",
+            'build/',
+        ]);
+    });
+});
+
+describe('Frequency Sorting', () => {
+    const input = ['warn', 'error', 'info', 'error', 'warn', 'error'];
+
+    it('should list distinct lines most common first, ties in first-seen order', () => {
+        assert.deepStrictEqual(sorter.sortByFrequency(input), ['error', 'warn', 'info']);
+    });
+
+    it('should prefix right-aligned counts', () => {
+        const many = [...Array<string>(10).fill('a'), 'b'];
+        assert.deepStrictEqual(sorter.sortByFrequency(many, true), ['10 a', ' 1 b']);
+    });
+});
+
+describe('Seeded Shuffle and Sampling', () => {
+    const lines = Array.from({ length: 20 }, (_, i) => `line ${i}`);
+
+    it('should shuffle the same way for the same seed', () => {
+        const first = sorter.sortShuffleSeeded(lines, 'fixtures');
+        assert.deepStrictEqual(sorter.sortShuffleSeeded(lines, 'fixtures'), first);
+        assert.notDeepStrictEqual(sorter.sortShuffleSeeded(lines, 'other'), first);
+        assert.deepStrictEqual(first.slice().sort(), lines.slice().sort());
+    });
+
+    it('should sample distinct lines in original or shuffled order', () => {
+        const sample = sorter.sampleLines(lines, 5, { shuffled: false, seed: 'a' });
+        assert.strictEqual(new Set(sample).size, 5);
+        const positions = sample.map((line) => lines.indexOf(line));
+        assert.deepStrictEqual(
+            positions,
+            positions.slice().sort((a, b) => a - b),
+        );
+
+        const shuffled = sorter.sampleLines(lines, 5, { shuffled: true, seed: 'a' });
+        assert.deepStrictEqual(shuffled.slice().sort(), sample.slice().sort());
+        assert.strictEqual(sorter.sampleLines(lines, 50, { shuffled: false }).length, 20);
+    });
+});
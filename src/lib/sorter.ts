@@ -1,59 +1,36 @@
 /**
  * Line sorting utilities
- * Optimized for performance with minimal array allocations and cached collators.
+ * Optimized for performance with minimal array allocations; text comparison goes
+ * through the shared collation settings (see collation.ts).
  * Pure logic only - no VS Code dependencies for unit testing compatibility.
  */
 
 import { REGEX } from '../constants.js';
+import { countOccurrences, prefixCounts } from './cleaner.js';
+import { compareText, compareTextInsensitive, compareTextNatural } from './collation.js';
+import { findTimestamp, type DateOrder } from './date-parser.js';
+import { getField, splitFields, type FieldDelimiter } from './fields.js';
+import { compareIPAddresses, findIPAddress, type ParsedIP } from './ip-address.js';
+import { baseName, countWords, directoryDepth, fileExtension, lastWord } from './key-extractors.js';
+import { findNumber } from './number-parser.js';
+import { createSeededRandom, type RandomSource } from './random.js';
+import { compareSemVer, findSemVer } from './semver.js';
 
-// IP address bit position constants for 32-bit integer conversion
-const IP_BIT_POSITION_1 = 24;
-const IP_BIT_POSITION_2 = 16;
-const IP_BIT_POSITION_3 = 8;
-const IP_BIT_POSITION_4 = 0;
+export const sortAsc = (lines: string[]): string[] => lines.slice().sort(compareText);
 
-let naturalCollator: Intl.Collator | undefined;
-let caseInsensitiveCollator: Intl.Collator | undefined;
-
-function getNaturalCollator(): Intl.Collator {
-    if (!naturalCollator) {
-        naturalCollator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
-    }
-    return naturalCollator;
-}
-
-function getCaseInsensitiveCollator(): Intl.Collator {
-    if (!caseInsensitiveCollator) {
-        caseInsensitiveCollator = new Intl.Collator(undefined, { sensitivity: 'base' });
-    }
-    return caseInsensitiveCollator;
-}
-
-export const sortAsc = (lines: string[]): string[] =>
-    lines.slice().sort((a, b) => a.localeCompare(b));
-
-export const sortAscInsensitive = (lines: string[]): string[] => {
-    const collator = getCaseInsensitiveCollator();
-    return lines.slice().sort(collator.compare);
-};
+export const sortAscInsensitive = (lines: string[]): string[] =>
+    lines.slice().sort(compareTextInsensitive);
 
 export const sortDesc = (lines: string[]): string[] =>
-    lines.slice().sort((a, b) => b.localeCompare(a));
+    lines.slice().sort((a, b) => compareText(b, a));
 
-export const sortDescInsensitive = (lines: string[]): string[] => {
-    const collator = getCaseInsensitiveCollator();
-    return lines.slice().sort((a, b) => collator.compare(b, a));
-};
+export const sortDescInsensitive = (lines: string[]): string[] =>
+    lines.slice().sort((a, b) => compareTextInsensitive(b, a));
 
-export const sortNaturalAsc = (lines: string[]): string[] => {
-    const collator = getNaturalCollator();
-    return lines.slice().sort(collator.compare);
-};
+export const sortNaturalAsc = (lines: string[]): string[] => lines.slice().sort(compareTextNatural);
 
-export const sortNaturalDesc = (lines: string[]): string[] => {
-    const collator = getNaturalCollator();
-    return lines.slice().sort((a, b) => collator.compare(b, a));
-};
+export const sortNaturalDesc = (lines: string[]): string[] =>
+    lines.slice().sort((a, b) => compareTextNatural(b, a));
 
 export const sortLengthAsc = (lines: string[]): string[] =>
     lines.slice().sort((a, b) => a.length - b.length);
@@ -63,59 +40,147 @@ export const sortLengthDesc = (lines: string[]): string[] =>
 
 export const sortReverse = (lines: string[]): string[] => lines.slice().reverse();
 
+/**
+ * Sort lines by the first IPv4/IPv6 address (or CIDR block) they contain
+ * IPv4 sorts before IPv6; equal addresses order by prefix length.
+ * Lines without a valid address (including invalid octets like 999.1.1.1) follow, alphabetically
+ */
 export function sortIP(lines: string[]): string[] {
-    const withIPs: Array<{ line: string; ipValue: number }> = [];
+    const withIPs: Array<{ line: string; ip: ParsedIP }> = [];
     const withoutIPs: string[] = [];
 
     for (const line of lines) {
-        const match = line.match(REGEX.IP_ADDRESS);
-        if (match) {
-            const ipValue =
-                ((parseInt(match[1], 10) << IP_BIT_POSITION_1) |
-                    (parseInt(match[2], 10) << IP_BIT_POSITION_2) |
-                    (parseInt(match[3], 10) << IP_BIT_POSITION_3) |
-                    (parseInt(match[4], 10) << IP_BIT_POSITION_4)) >>>
-                0;
-            withIPs.push({ line, ipValue });
+        const ip = findIPAddress(line);
+        if (ip) {
+            withIPs.push({ line, ip });
         } else {
             withoutIPs.push(line);
         }
     }
 
-    withIPs.sort((a, b) => a.ipValue - b.ipValue);
-    withoutIPs.sort((a, b) => a.localeCompare(b));
+    withIPs.sort((a, b) => compareIPAddresses(a.ip, b.ip));
+    withoutIPs.sort(compareText);
 
     return [...withIPs.map((p) => p.line), ...withoutIPs];
 }
 
-export const sortShuffle = (lines: string[]): string[] => {
-    const array = lines.slice();
+/**
+ * Fisher-Yates shuffle driven by the given random source
+ */
+function shuffleWith<T>(items: T[], random: RandomSource): T[] {
+    const array = items.slice();
     for (let i = array.length - 1; i > 0; i--) {
-        const j = Math.floor(Math.random() * (i + 1));
+        const j = Math.floor(random() * (i + 1));
         [array[i], array[j]] = [array[j], array[i]];
     }
     return array;
-};
+}
+
+export const sortShuffle = (lines: string[]): string[] => shuffleWith(lines, Math.random);
+
+/**
+ * Shuffle reproducibly: the same seed always gives the same order
+ */
+export const sortShuffleSeeded = (lines: string[], seed: string): string[] =>
+    shuffleWith(lines, createSeededRandom(seed));
+
+export interface SampleOptions {
+    /** Keep picked lines in shuffled order instead of their original order */
+    shuffled: boolean;
+    /** Seed for a reproducible sample; omit for Math.random */
+    seed?: string;
+}
 
-export const sortUnique = (lines: string[]): string[] =>
-    [...new Set(lines)].sort((a, b) => a.localeCompare(b));
+/**
+ * Pick `count` random lines (all of them when there are fewer)
+ */
+export function sampleLines(lines: string[], count: number, options: SampleOptions): string[] {
+    const random = options.seed === undefined ? Math.random : createSeededRandom(options.seed);
+    const indices = lines.map((_, index) => index);
+    const size = Math.min(count, lines.length);
 
-export const sortUniqueInsensitive = (lines: string[]): string[] => {
-    const seen = new Set<string>();
-    const unique: { original: string; lower: string }[] = [];
+    // Partial Fisher-Yates: only the first `size` slots need to be drawn
+    for (let i = 0; i < size; i++) {
+        const j = i + Math.floor(random() * (indices.length - i));
+        [indices[i], indices[j]] = [indices[j], indices[i]];
+    }
 
+    const picked = indices.slice(0, size);
+    if (!options.shuffled) {
+        picked.sort((a, b) => a - b);
+    }
+    return picked.map((index) => lines[index]);
+}
+
+/** Which line survives when lines that differ only in case or whitespace collapse */
+export type UniqueKeep = 'first' | 'last';
+
+/**
+ * Drop lines whose key was already seen, keeping the first or last line per key
+ * Survivors keep the position of their key's first occurrence
+ */
+function dedupeBy(lines: string[], toKey: (line: string) => string, keep: UniqueKeep): string[] {
+    const kept = new Map<string, string>();
     for (const line of lines) {
-        const lower = line.toLowerCase();
-        if (!seen.has(lower)) {
-            seen.add(lower);
-            unique.push({ original: line, lower });
+        const key = toKey(line);
+        if (keep === 'last' || !kept.has(key)) {
+            kept.set(key, line);
         }
     }
+    return [...kept.values()];
+}
 
-    const collator = getCaseInsensitiveCollator();
-    unique.sort((a, b) => collator.compare(a.lower, b.lower));
-    return unique.map((x) => x.original);
-};
+const stripWhitespace = (line: string): string => line.replace(/\s+/g, '');
+
+export const sortUnique = (lines: string[]): string[] => [...new Set(lines)].sort(compareText);
+
+export const sortUniqueDesc = (lines: string[]): string[] =>
+    [...new Set(lines)].sort((a, b) => compareText(b, a));
+
+export const sortUniqueNatural = (lines: string[]): string[] =>
+    [...new Set(lines)].sort(compareTextNatural);
+
+export const sortUniqueNaturalDesc = (lines: string[]): string[] =>
+    [...new Set(lines)].sort((a, b) => compareTextNatural(b, a));
+
+/**
+ * Sort and drop lines that differ only in case
+ *
+ * @param keep - Keep the first or last spelling of each duplicate (default: first)
+ */
+export const sortUniqueInsensitive = (lines: string[], keep: UniqueKeep = 'first'): string[] =>
+    dedupeBy(lines, (line) => line.toLowerCase(), keep).sort(compareTextInsensitive);
+
+export const sortUniqueInsensitiveDesc = (lines: string[], keep: UniqueKeep = 'first'): string[] =>
+    dedupeBy(lines, (line) => line.toLowerCase(), keep).sort((a, b) =>
+        compareTextInsensitive(b, a),
+    );
+
+/**
+ * Sort and drop lines that differ only in whitespace (indentation, spacing, tabs)
+ * Lines are ordered by their text without leading or trailing whitespace
+ *
+ * @param keep - Keep the first or last spelling of each duplicate (default: first)
+ */
+export const sortUniqueIgnoreWhitespace = (lines: string[], keep: UniqueKeep = 'first'): string[] =>
+    dedupeBy(lines, stripWhitespace, keep).sort((a, b) => compareText(a.trim(), b.trim()));
+
+export const sortUniqueIgnoreWhitespaceDesc = (
+    lines: string[],
+    keep: UniqueKeep = 'first',
+): string[] =>
+    dedupeBy(lines, stripWhitespace, keep).sort((a, b) => compareText(b.trim(), a.trim()));
+
+/**
+ * Order distinct lines by how often they occur, most common first
+ * Lines with equal counts keep the order they first appeared in
+ *
+ * @param withCounts - Prefix each line with its count, right-aligned like `uniq -c | sort -rn`
+ */
+export function sortByFrequency(lines: string[], withCounts = false): string[] {
+    const entries = [...countOccurrences(lines)].sort((a, b) => b[1] - a[1]);
+    return withCounts ? prefixCounts(entries) : entries.map(([line]) => line);
+}
 
 /**
  * Strip leading special characters to get the sortable text
@@ -129,15 +194,14 @@ export const sortAscIgnoreSpecial = (lines: string[]): string[] =>
     lines.slice().sort((a, b) => {
         const cleanA = stripLeadingSpecialChars(a);
         const cleanB = stripLeadingSpecialChars(b);
-        return cleanA.localeCompare(cleanB);
+        return compareText(cleanA, cleanB);
     });
 
 export const sortAscIgnoreSpecialInsensitive = (lines: string[]): string[] => {
-    const collator = getCaseInsensitiveCollator();
     return lines.slice().sort((a, b) => {
         const cleanA = stripLeadingSpecialChars(a);
         const cleanB = stripLeadingSpecialChars(b);
-        return collator.compare(cleanA, cleanB);
+        return compareTextInsensitive(cleanA, cleanB);
     });
 };
 
@@ -145,14 +209,434 @@ export const sortDescIgnoreSpecial = (lines: string[]): string[] =>
     lines.slice().sort((a, b) => {
         const cleanA = stripLeadingSpecialChars(a);
         const cleanB = stripLeadingSpecialChars(b);
-        return cleanB.localeCompare(cleanA);
+        return compareText(cleanB, cleanA);
     });
 
 export const sortDescIgnoreSpecialInsensitive = (lines: string[]): string[] => {
-    const collator = getCaseInsensitiveCollator();
     return lines.slice().sort((a, b) => {
         const cleanA = stripLeadingSpecialChars(a);
         const cleanB = stripLeadingSpecialChars(b);
-        return collator.compare(cleanB, cleanA);
+        return compareTextInsensitive(cleanB, cleanA);
     });
 };
+
+const KEY_COMPARATOR_NAMES = [
+    'string',
+    'insensitive',
+    'natural',
+    'numeric',
+    'length',
+    'ip',
+    'semver',
+    'date',
+    'words',
+    'lastword',
+    'extension',
+    'basename',
+    'depth',
+] as const;
+
+export type KeyComparatorName = (typeof KEY_COMPARATOR_NAMES)[number];
+export type SortDirection = 'asc' | 'desc';
+
+const SORT_DIRECTIONS: readonly string[] = ['asc', 'desc'];
+
+export function isKeyComparatorName(value: unknown): value is KeyComparatorName {
+    return (KEY_COMPARATOR_NAMES as readonly unknown[]).includes(value);
+}
+
+export function isSortDirection(value: unknown): value is SortDirection {
+    return (SORT_DIRECTIONS as readonly unknown[]).includes(value);
+}
+
+/**
+ * Orders extracted sort keys (a column, a regex capture, ...)
+ * toKey converts the raw text once per line; returning undefined means the
+ * text can't be ordered by this comparator and the line joins the end group
+ */
+export interface KeyComparator<T = unknown> {
+    toKey(text: string): T | undefined;
+    compare(a: T, b: T): number;
+}
+
+const identity = (text: string): string => text;
+const compareNumbers = (a: number, b: number): number => a - b;
+
+/**
+ * Settings some comparators need to interpret keys
+ */
+export interface KeyComparatorOptions {
+    /** How the date comparator reads ambiguous numeric dates (default: dmy) */
+    dateOrder?: DateOrder;
+}
+
+export function getKeyComparator(
+    name: KeyComparatorName,
+    options: KeyComparatorOptions = {},
+): KeyComparator {
+    switch (name) {
+        case 'insensitive':
+            return { toKey: identity, compare: compareTextInsensitive };
+        case 'natural':
+            return { toKey: identity, compare: compareTextNatural };
+        case 'numeric':
+            return { toKey: (text: string) => findNumber(text), compare: compareNumbers };
+        case 'length':
+            return { toKey: (text: string) => text.length, compare: compareNumbers };
+        case 'ip':
+            return { toKey: findIPAddress, compare: compareIPAddresses };
+        case 'semver':
+            return { toKey: findSemVer, compare: compareSemVer };
+        case 'date': {
+            const order = options.dateOrder ?? 'dmy';
+            return { toKey: (text: string) => findTimestamp(text, order), compare: compareNumbers };
+        }
+        case 'words':
+            return { toKey: countWords, compare: compareNumbers };
+        case 'lastword':
+            return { toKey: lastWord, compare: compareText };
+        case 'extension':
+            return extensionComparator();
+        case 'basename':
+            return { toKey: baseName, compare: compareText };
+        case 'depth':
+            return { toKey: directoryDepth, compare: compareNumbers };
+        case 'string':
+        default:
+            return { toKey: identity, compare: compareText };
+    }
+}
+
+/**
+ * Sort lines by the first semantic version they contain, using SemVer 2.0 precedence
+ * (pre-releases before their release, build metadata ignored).
+ * Lines without a version keep their original order at the end
+ */
+export const sortSemVerAsc = (lines: string[]): string[] =>
+    sortByKey(lines, identity, getKeyComparator('semver'), 'asc');
+
+export const sortSemVerDesc = (lines: string[]): string[] =>
+    sortByKey(lines, identity, getKeyComparator('semver'), 'desc');
+
+/**
+ * Sort lines by the real value of a number they contain (-10 < -2 < 0.5 < 1e3 < 0x400)
+ * Unlike natural sort this understands signs, decimals, exponents, thousands
+ * separators and hex. Lines without the number keep their original order at the end
+ *
+ * @param occurrence - Which number in the line to use, 1-based (default: first)
+ */
+export const sortNumericAsc = (lines: string[], occurrence = 1): string[] =>
+    sortByKey(lines, identity, numericComparator(occurrence), 'asc');
+
+export const sortNumericDesc = (lines: string[], occurrence = 1): string[] =>
+    sortByKey(lines, identity, numericComparator(occurrence), 'desc');
+
+/**
+ * Groups paths by extension (case-insensitive, files without one first, like
+ * `ls -X`) and orders each group by the full path
+ */
+function extensionComparator(): KeyComparator<{ extension: string; path: string }> {
+    return {
+        toKey: (text) => {
+            const extension = fileExtension(text);
+            return extension === undefined ? undefined : { extension, path: text.trim() };
+        },
+        compare: (a, b) =>
+            compareTextInsensitive(a.extension, b.extension) || compareText(a.path, b.path),
+    };
+}
+
+function numericComparator(occurrence: number): KeyComparator<number> {
+    return { toKey: (text) => findNumber(text, occurrence), compare: compareNumbers };
+}
+
+/**
+ * Sort lines chronologically by the first date or timestamp they contain
+ * Lines without one keep their original order at the end
+ *
+ * @param order - How to read ambiguous numeric dates such as 03/04/2024
+ */
+export const sortDateAsc = (lines: string[], order: DateOrder = 'dmy'): string[] =>
+    sortByKey(lines, identity, getKeyComparator('date', { dateOrder: order }), 'asc');
+
+export const sortDateDesc = (lines: string[], order: DateOrder = 'dmy'): string[] =>
+    sortByKey(lines, identity, getKeyComparator('date', { dateOrder: order }), 'desc');
+
+/**
+ * Sort lines by a key extracted from each line
+ * Lines without a key keep their original relative order in a group after the
+ * sorted lines, whatever the direction; ties keep their original order too
+ *
+ * @param lines - Lines to sort
+ * @param extract - Returns the text to sort on, or undefined when the line has none
+ * @param comparator - Converts and orders the extracted text
+ * @param direction - Sort direction for keyed lines
+ */
+export function sortByKey(
+    lines: string[],
+    extract: (line: string) => string | undefined,
+    comparator: KeyComparator,
+    direction: SortDirection = 'asc',
+): string[] {
+    return orderByKey(lines, extract, comparator, direction);
+}
+
+/**
+ * sortByKey for any item type (tree nodes, blocks, ...)
+ */
+function orderByKey<T>(
+    items: T[],
+    extract: (item: T) => string | undefined,
+    comparator: KeyComparator,
+    direction: SortDirection,
+): T[] {
+    const keyed: Array<{ item: T; key: unknown }> = [];
+    const unkeyed: T[] = [];
+
+    for (const item of items) {
+        const text = extract(item);
+        const key = text === undefined ? undefined : comparator.toKey(text);
+        if (key === undefined) {
+            unkeyed.push(item);
+        } else {
+            keyed.push({ item, key });
+        }
+    }
+
+    const sign = direction === 'desc' ? -1 : 1;
+    keyed.sort((a, b) => sign * comparator.compare(a.key, b.key));
+
+    return [...keyed.map((k) => k.item), ...unkeyed];
+}
+
+export interface ColumnSortOptions extends KeyComparatorOptions {
+    delimiter: FieldDelimiter;
+    /** 1-based column index */
+    column: number;
+    comparator: KeyComparatorName;
+    direction: SortDirection;
+}
+
+/**
+ * Sort delimited lines (CSV, TSV, logs) by one column
+ * Lines with fewer columns than requested go to the end in original order
+ */
+export function sortByColumn(lines: string[], options: ColumnSortOptions): string[] {
+    return sortByKey(
+        lines,
+        (line) => getField(line, options.delimiter, options.column),
+        getKeyComparator(options.comparator, options),
+        options.direction,
+    );
+}
+
+export interface RegexSortOptions extends KeyComparatorOptions {
+    /** Pattern whose first capture group (or whole match, without groups) is the key */
+    pattern: RegExp;
+    comparator: KeyComparatorName;
+    direction: SortDirection;
+}
+
+/**
+ * Sort lines by the text a regular expression captures
+ * Lines that don't match go to the end in original order
+ */
+export function sortByRegex(lines: string[], options: RegexSortOptions): string[] {
+    return sortByKey(
+        lines,
+        (line) => {
+            const match = options.pattern.exec(line);
+            return match ? (match[1] ?? match[0]) : undefined;
+        },
+        getKeyComparator(options.comparator, options),
+        options.direction,
+    );
+}
+
+/**
+ * One key of a multi-key sort: which column, how to compare it, and which way
+ */
+export interface SortKey {
+    /** 1-based column index */
+    column: number;
+    comparator: KeyComparatorName;
+    direction: SortDirection;
+}
+
+/**
+ * Parse a multi-key sort spec such as `2:natural:asc,1:insensitive:desc`
+ * Each key is a column number optionally followed by a comparator and a
+ * direction in either order; omitted parts default to `string` and `asc`
+ *
+ * @throws Error describing the first invalid key
+ */
+export function parseSortSpec(spec: string): SortKey[] {
+    const parts = spec
+        .split(',')
+        .map((part) => part.trim())
+        .filter((part) => part.length > 0);
+
+    if (parts.length === 0) {
+        throw new Error('Sort spec is empty');
+    }
+
+    return parts.map((part) => {
+        const [column, ...options] = part.split(':').map((token) => token.trim().toLowerCase());
+
+        if (!/^[1-9]\d*$/.test(column)) {
+            throw new Error(`Invalid column "${column}" in sort key "${part}"`);
+        }
+
+        const key: SortKey = {
+            column: parseInt(column, 10),
+            comparator: 'string',
+            direction: 'asc',
+        };
+        for (const option of options) {
+            if (isSortDirection(option)) {
+                key.direction = option;
+            } else if (isKeyComparatorName(option)) {
+                key.comparator = option;
+            } else {
+                throw new Error(`Unknown option "${option}" in sort key "${part}"`);
+            }
+        }
+        return key;
+    });
+}
+
+/**
+ * Format sort keys back into spec string form
+ */
+export function formatSortSpec(keys: SortKey[]): string {
+    return keys.map((key) => `${key.column}:${key.comparator}:${key.direction}`).join(',');
+}
+
+/**
+ * Sort delimited lines by several keys in priority order
+ * A line missing a key (or whose value the comparator can't order) sorts after
+ * lines that have it, at that key's level; full ties keep their original order
+ */
+export function sortByKeys(
+    lines: string[],
+    keys: SortKey[],
+    delimiter: FieldDelimiter,
+    options: KeyComparatorOptions = {},
+): string[] {
+    const comparators = keys.map((key) => getKeyComparator(key.comparator, options));
+    const signs = keys.map((key) => (key.direction === 'desc' ? -1 : 1));
+
+    const rows = lines.map((line, index) => {
+        const fields = splitFields(line, delimiter);
+        const values = keys.map((key, i) => {
+            const field = fields[key.column - 1];
+            return field === undefined ? undefined : comparators[i].toKey(field);
+        });
+        return { line, index, values };
+    });
+
+    rows.sort((a, b) => {
+        for (let i = 0; i < keys.length; i++) {
+            const valueA = a.values[i];
+            const valueB = b.values[i];
+            if (valueA === undefined || valueB === undefined) {
+                if (valueA !== valueB) {
+                    return valueA === undefined ? 1 : -1;
+                }
+                continue;
+            }
+            const result = comparators[i].compare(valueA, valueB);
+            if (result !== 0) {
+                return signs[i] * result;
+            }
+        }
+        return a.index - b.index;
+    });
+
+    return rows.map((row) => row.line);
+}
+
+/** Columns a tab advances to when the editor's tab size isn't known */
+const DEFAULT_TAB_SIZE = 4;
+
+/**
+ * Indentation width of a line's leading whitespace (REGEX.LEADING_WHITESPACE)
+ * Tabs advance to the next tab stop so tab- and space-indented lines compare
+ * on one scale
+ */
+function indentWidth(line: string, tabSize: number): number {
+    const indent = REGEX.LEADING_WHITESPACE.exec(line)?.[0] ?? '';
+    let width = 0;
+    for (const char of indent) {
+        width = char === '\t' ? width - (width % tabSize) + tabSize : width + 1;
+    }
+    return width;
+}
+
+interface TreeNode {
+    /** The node's own line; blank lines directly below it when it has children */
+    lines: string[];
+    children: TreeNode[];
+    /** Blank lines after the node's whole subtree */
+    trailing: string[];
+}
+
+export interface TreeSortOptions extends KeyComparatorOptions {
+    comparator: KeyComparatorName;
+    direction: SortDirection;
+    /** Columns a tab advances to (default: 4) */
+    tabSize?: number;
+}
+
+/**
+ * Sort an indented outline (nested lists, YAML-like files) level by level
+ * Each line's children are the more-indented lines below it; siblings are
+ * sorted by their text without indentation and children always move with
+ * their parent. Blank lines move with the subtree above them; blank lines at
+ * the start or end of the input stay in place
+ */
+export function sortTree(lines: string[], options: TreeSortOptions): string[] {
+    let end = lines.length;
+    while (end > 0 && lines[end - 1].trim().length === 0) end--;
+
+    const root: TreeNode = { lines: [], children: [], trailing: [] };
+    const ancestors: Array<{ width: number; node: TreeNode }> = [];
+    let blanks: string[] = [];
+
+    for (const line of lines.slice(0, end)) {
+        if (line.trim().length === 0) {
+            blanks.push(line);
+            continue;
+        }
+        const width = indentWidth(line, options.tabSize ?? DEFAULT_TAB_SIZE);
+        while (ancestors.length > 0 && ancestors[ancestors.length - 1].width >= width) {
+            ancestors.pop();
+        }
+        const parent = ancestors.length > 0 ? ancestors[ancestors.length - 1].node : root;
+        const sibling = parent.children[parent.children.length - 1];
+        (sibling ? sibling.trailing : parent.lines).push(...blanks);
+        blanks = [];
+
+        const node: TreeNode = { lines: [line], children: [], trailing: [] };
+        parent.children.push(node);
+        ancestors.push({ width, node });
+    }
+
+    const comparator = getKeyComparator(options.comparator, options);
+    const result: string[] = [];
+    const emit = (node: TreeNode): void => {
+        result.push(...node.lines);
+        const children = orderByKey(
+            node.children,
+            (child) => child.lines[0].trimStart(),
+            comparator,
+            options.direction,
+        );
+        children.forEach(emit);
+        result.push(...node.trailing);
+    };
+    emit(root);
+
+    result.push(...lines.slice(end));
+    return result;
+}
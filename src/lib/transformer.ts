@@ -6,6 +6,12 @@ import {
     sentenceCase,
     snakeCase,
 } from 'change-case';
+import {
+    DEFAULT_JSON_SORT_OPTIONS,
+    sortJsonByKey,
+    sortJsonByValue,
+    type JsonSortOptions,
+} from './json-sorter.js';
 
 /**
  * Text transformation and encoding utilities
@@ -207,65 +213,23 @@ export function transformJoin(lines: string[], separator: string): string[] {
     return [lines.join(separator)];
 }
 
-function sortObjectKeys(obj: unknown): unknown {
-    if (obj === null || typeof obj !== 'object') return obj;
-
-    if (Array.isArray(obj)) {
-        return obj.map(sortObjectKeys);
-    }
-
-    const objRecord = obj as Record<string, unknown>;
-    return Object.keys(objRecord)
-        .sort()
-        .reduce(
-            (result, key) => {
-                result[key] = sortObjectKeys(objRecord[key]);
-                return result;
-            },
-            {} as Record<string, unknown>,
-        );
-}
-
-function sortObjectByValue(obj: unknown): unknown {
-    if (obj === null || typeof obj !== 'object') return obj;
-
-    if (Array.isArray(obj)) {
-        return obj.map(sortObjectByValue);
-    }
-
-    const objRecord = obj as Record<string, unknown>;
-    const sortedEntries = Object.entries(objRecord).sort(([, a], [, b]) => {
-        const aStr = typeof a === 'string' ? a : JSON.stringify(a);
-        const bStr = typeof b === 'string' ? b : JSON.stringify(b);
-        return aStr.localeCompare(bStr);
-    });
-
-    return sortedEntries.reduce(
-        (result, [key, value]) => {
-            result[key] = sortObjectByValue(value);
-            return result;
-        },
-        {} as Record<string, unknown>,
-    );
-}
-
-export function transformJsonSortByKey(lines: string[]): string[] {
-    const text = lines.join('\n');
+export function transformJsonSortByKey(
+    lines: string[],
+    options: JsonSortOptions = DEFAULT_JSON_SORT_OPTIONS,
+): string[] {
     try {
-        const parsed = JSON.parse(text);
-        const sorted = sortObjectKeys(parsed);
-        return [JSON.stringify(sorted, null, 2)];
+        return sortJsonByKey(lines.join('\n'), options).split('\n');
     } catch (error) {
         throw new Error(`Invalid JSON: ${(error as Error).message}`);
     }
 }
 
-export function transformJsonSortByValue(lines: string[]): string[] {
-    const text = lines.join('\n');
+export function transformJsonSortByValue(
+    lines: string[],
+    options: JsonSortOptions = DEFAULT_JSON_SORT_OPTIONS,
+): string[] {
     try {
-        const parsed = JSON.parse(text);
-        const sorted = sortObjectByValue(parsed);
-        return [JSON.stringify(sorted, null, 2)];
+        return sortJsonByValue(lines.join('\n'), options).split('\n');
     } catch (error) {
         throw new Error(`Invalid JSON: ${(error as Error).message}`);
     }
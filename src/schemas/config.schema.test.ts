@@ -1,6 +1,11 @@
 import { describe, it } from 'bun:test';
 import * as assert from 'assert';
-import { validateConfigFast, validateConfigWithFeedback, DEFAULT_CONFIG } from './config.schema.js';
+import {
+    validateConfigFast,
+    validateConfigWithFeedback,
+    DEFAULT_CONFIG,
+    type SortSpecSetting,
+} from './config.schema.js';
 
 describe('Configuration Validation', () => {
     describe('validateConfigFast (Native JavaScript)', () => {
@@ -16,7 +21,7 @@ describe('Configuration Validation', () => {
                 cssSortStrategy: 'alphabetical' as const,
             };
             const result = validateConfigFast(config);
-            assert.deepStrictEqual(result, config);
+            assert.deepStrictEqual(result, { ...DEFAULT_CONFIG, ...config });
         });
 
         it('should reject invalid cleanup action and use default', () => {
@@ -69,7 +74,7 @@ describe('Configuration Validation', () => {
             };
             const result = validateConfigWithFeedback(config);
             assert.ok(result.valid);
-            assert.deepStrictEqual(result.config, config);
+            assert.deepStrictEqual(result.config, { ...DEFAULT_CONFIG, ...config });
         });
 
         it('should reject invalid values and return errors', () => {
@@ -95,7 +100,7 @@ describe('Configuration Validation', () => {
             };
             const result = validateConfigWithFeedback(config);
             assert.ok(result.valid);
-            assert.deepStrictEqual(result.config, config);
+            assert.deepStrictEqual(result.config, { ...DEFAULT_CONFIG, ...config });
         });
 
         it('should apply defaults for missing fields', () => {
@@ -108,6 +113,19 @@ describe('Configuration Validation', () => {
             assert.strictEqual(result.config.cleanupOnSave, DEFAULT_CONFIG.cleanupOnSave);
             assert.strictEqual(result.config.cssSortStrategy, DEFAULT_CONFIG.cssSortStrategy);
         });
+
+        it('should drop malformed saved sort specs', () => {
+            const result = validateConfigWithFeedback({
+                sortSpecs: [
+                    { name: 'By host', spec: '2:ip,1' },
+                    { spec: '1' },
+                ] as SortSpecSetting[],
+            });
+            assert.strictEqual(result.valid, false);
+            assert.deepStrictEqual(result.config.sortSpecs, [
+                { name: 'By host', spec: '2:ip,1', delimiter: 'comma' },
+            ]);
+        });
     });
 
     describe('Performance Characteristics', () => {
@@ -12,15 +12,85 @@ export type CleanupOnSave =
     | 'none'
     | 'removeBlankLines'
     | 'trimTrailingWhitespace'
-    | 'sortCssProperties';
+    | 'sortCssProperties'
+    | 'sortImports';
 export type CssSortStrategy = 'alphabetical' | 'length';
+export type DateOrder = 'dmy' | 'mdy';
+export type UniqueKeep = 'first' | 'last';
+export type JsonValueOrder = 'text' | 'typed' | 'natural';
+export type SetOperationOutput = 'newDocument' | 'replaceSelection';
+export type CollationSensitivity = 'base' | 'accent' | 'case' | 'variant';
+export type CollationCaseFirst = 'upper' | 'lower' | 'false';
+
+/**
+ * How sorters compare text; locale '' uses the host locale
+ * binary compares Unicode code points and ignores the other options
+ */
+export interface CollationSettings {
+    locale: string;
+    sensitivity: CollationSensitivity;
+    ignorePunctuation: boolean;
+    caseFirst: CollationCaseFirst;
+    binary: boolean;
+}
+
+/**
+ * Which differences Remove Duplicate Lines ignores, and which duplicate it keeps
+ */
+export interface DedupeSettings {
+    ignoreCase: boolean;
+    trim: boolean;
+    collapseWhitespace: boolean;
+    normalizeUnicode: boolean;
+    ignorePunctuation: boolean;
+    keep: UniqueKeep;
+}
+
+/**
+ * A named multi-key sort, e.g. { name: 'By host', spec: '2:ip:asc,1', delimiter: 'tab' }
+ * delimiter is comma, tab, whitespace, semicolon, pipe, or a regular expression
+ */
+export interface SortSpecSetting {
+    name: string;
+    spec: string;
+    delimiter: string;
+}
+
+/**
+ * A JSON key order for files matching `files`, e.g. { name: 'App config',
+ * files: ['app.*.json'], keys: ['id', 'name'] }
+ */
+export interface JsonKeyOrderSetting {
+    name: string;
+    files: string[];
+    keys: string[];
+}
 
 export interface Config {
     joinSeparator: string;
     cleanupOnSave: CleanupOnSave;
     cssSortStrategy: CssSortStrategy;
+    sortSpecs: SortSpecSetting[];
+    dateOrder: DateOrder;
+    uniqueKeep: UniqueKeep;
+    collation: CollationSettings;
+    jsonSortDepth: number;
+    jsonKeyOrders: JsonKeyOrderSetting[];
+    jsonValueOrder: JsonValueOrder;
+    jsonSortArrays: boolean;
+    dedupe: DedupeSettings;
+    collapseMasks: string[];
+    setOperationOutput: SetOperationOutput;
 }
 
+/**
+ * Config as read from settings, before validation; nested settings may be incomplete
+ */
+export type RawConfig = Partial<Omit<Config, 'collation' | 'dedupe'>> & {
+    collation?: Partial<CollationSettings>;
+    dedupe?: Partial<DedupeSettings>;
+};
+
 /**
  * Hardcoded default values
  * Used as fallback without needing any validation library
@@ -29,6 +99,30 @@ export const DEFAULT_CONFIG: Config = {
     joinSeparator: ' ',
     cleanupOnSave: 'none',
     cssSortStrategy: 'alphabetical',
+    sortSpecs: [],
+    dateOrder: 'dmy',
+    uniqueKeep: 'first',
+    collation: {
+        locale: '',
+        sensitivity: 'variant',
+        ignorePunctuation: false,
+        caseFirst: 'false',
+        binary: false,
+    },
+    jsonSortDepth: 0,
+    jsonKeyOrders: [],
+    jsonValueOrder: 'text',
+    jsonSortArrays: false,
+    dedupe: {
+        ignoreCase: false,
+        trim: false,
+        collapseWhitespace: false,
+        normalizeUnicode: false,
+        ignorePunctuation: false,
+        keep: 'first',
+    },
+    collapseMasks: ['timestamp', 'uuid', 'hex', 'number'],
+    setOperationOutput: 'newDocument',
 } as const;
 
 /**
@@ -39,10 +133,144 @@ const VALID_CLEANUP_ACTIONS = new Set<CleanupOnSave>([
     'removeBlankLines',
     'trimTrailingWhitespace',
     'sortCssProperties',
+    'sortImports',
 ]);
 
 const VALID_SORT_STRATEGIES = new Set<CssSortStrategy>(['alphabetical', 'length']);
 
+const VALID_DATE_ORDERS = new Set<DateOrder>(['dmy', 'mdy']);
+
+const VALID_UNIQUE_KEEPS = new Set<UniqueKeep>(['first', 'last']);
+
+const VALID_JSON_VALUE_ORDERS = new Set<JsonValueOrder>(['text', 'typed', 'natural']);
+
+const VALID_SET_OPERATION_OUTPUTS = new Set<SetOperationOutput>([
+    'newDocument',
+    'replaceSelection',
+]);
+
+const VALID_SENSITIVITIES = new Set<CollationSensitivity>(['base', 'accent', 'case', 'variant']);
+
+const VALID_CASE_FIRSTS = new Set<CollationCaseFirst>(['upper', 'lower', 'false']);
+
+const DEFAULT_SPEC_DELIMITER = 'comma';
+
+function isValidSortSpec(value: unknown): value is Partial<SortSpecSetting> {
+    if (value === null || typeof value !== 'object') return false;
+    const entry = value as Partial<SortSpecSetting>;
+    return (
+        typeof entry.name === 'string' &&
+        entry.name.length > 0 &&
+        typeof entry.spec === 'string' &&
+        (entry.delimiter === undefined || typeof entry.delimiter === 'string')
+    );
+}
+
+/**
+ * Keeps well-formed saved sort specs and fills in the default delimiter
+ */
+function validateSortSpecs(value: unknown): SortSpecSetting[] {
+    if (!Array.isArray(value)) return DEFAULT_CONFIG.sortSpecs;
+    return value.filter(isValidSortSpec).map((entry) => ({
+        name: entry.name!,
+        spec: entry.spec!,
+        delimiter: entry.delimiter ?? DEFAULT_SPEC_DELIMITER,
+    }));
+}
+
+function isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+function isValidJsonKeyOrder(value: unknown): value is JsonKeyOrderSetting {
+    if (value === null || typeof value !== 'object') return false;
+    const entry = value as Partial<JsonKeyOrderSetting>;
+    return (
+        typeof entry.name === 'string' &&
+        entry.name.length > 0 &&
+        isStringArray(entry.files) &&
+        isStringArray(entry.keys)
+    );
+}
+
+function isValidJsonSortDepth(value: unknown): value is number {
+    return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+/**
+ * Accepts a built-in mask name (timestamp, uuid, hex, number) or a regular expression;
+ * names are valid regular expressions too, so compiling is the whole check
+ */
+function isValidCollapseMask(value: unknown): value is string {
+    if (typeof value !== 'string' || value.length === 0) return false;
+    try {
+        new RegExp(value);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Accepts '' (host locale) or a well-formed BCP 47 tag, even one the runtime
+ * doesn't support (Intl then falls back to the closest supported locale)
+ */
+function isValidLocale(value: unknown): value is string {
+    if (typeof value !== 'string') return false;
+    if (value === '') return true;
+    try {
+        Intl.Collator.supportedLocalesOf(value);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Validates each collation option independently, defaulting invalid ones
+ */
+function validateCollation(value: Partial<CollationSettings> | undefined): CollationSettings {
+    const defaults = DEFAULT_CONFIG.collation;
+    const raw = value ?? {};
+    return {
+        locale: isValidLocale(raw.locale) ? raw.locale : defaults.locale,
+        sensitivity: VALID_SENSITIVITIES.has(raw.sensitivity as CollationSensitivity)
+            ? (raw.sensitivity as CollationSensitivity)
+            : defaults.sensitivity,
+        ignorePunctuation:
+            typeof raw.ignorePunctuation === 'boolean'
+                ? raw.ignorePunctuation
+                : defaults.ignorePunctuation,
+        caseFirst: VALID_CASE_FIRSTS.has(raw.caseFirst as CollationCaseFirst)
+            ? (raw.caseFirst as CollationCaseFirst)
+            : defaults.caseFirst,
+        binary: typeof raw.binary === 'boolean' ? raw.binary : defaults.binary,
+    };
+}
+
+/** The on/off options of DedupeSettings */
+export const DEDUPE_FLAGS = [
+    'ignoreCase',
+    'trim',
+    'collapseWhitespace',
+    'normalizeUnicode',
+    'ignorePunctuation',
+] as const;
+
+/**
+ * Validates each dedupe option independently, defaulting invalid ones
+ */
+function validateDedupe(value: Partial<DedupeSettings> | undefined): DedupeSettings {
+    const defaults = DEFAULT_CONFIG.dedupe;
+    const raw = value ?? {};
+    const settings = { ...defaults };
+    for (const flag of DEDUPE_FLAGS) {
+        if (typeof raw[flag] === 'boolean') settings[flag] = raw[flag];
+    }
+    if (VALID_UNIQUE_KEEPS.has(raw.keep as UniqueKeep)) settings.keep = raw.keep as UniqueKeep;
+    return settings;
+}
+
 /**
  * Native JavaScript config validation
  * Performs basic runtime validation without external dependencies
@@ -51,7 +279,7 @@ const VALID_SORT_STRATEGIES = new Set<CssSortStrategy>(['alphabetical', 'length'
  * @param rawConfig - Raw configuration object from VS Code
  * @returns Validated config with defaults applied
  */
-export function validateConfigFast(rawConfig: Partial<Config>): Config {
+export function validateConfigFast(rawConfig: RawConfig): Config {
     return {
         joinSeparator:
             typeof rawConfig.joinSeparator === 'string'
@@ -65,6 +293,47 @@ export function validateConfigFast(rawConfig: Partial<Config>): Config {
         cssSortStrategy: VALID_SORT_STRATEGIES.has(rawConfig.cssSortStrategy as CssSortStrategy)
             ? (rawConfig.cssSortStrategy as CssSortStrategy)
             : DEFAULT_CONFIG.cssSortStrategy,
+
+        sortSpecs: validateSortSpecs(rawConfig.sortSpecs),
+
+        dateOrder: VALID_DATE_ORDERS.has(rawConfig.dateOrder as DateOrder)
+            ? (rawConfig.dateOrder as DateOrder)
+            : DEFAULT_CONFIG.dateOrder,
+
+        uniqueKeep: VALID_UNIQUE_KEEPS.has(rawConfig.uniqueKeep as UniqueKeep)
+            ? (rawConfig.uniqueKeep as UniqueKeep)
+            : DEFAULT_CONFIG.uniqueKeep,
+
+        collation: validateCollation(rawConfig.collation),
+
+        jsonSortDepth: isValidJsonSortDepth(rawConfig.jsonSortDepth)
+            ? rawConfig.jsonSortDepth
+            : DEFAULT_CONFIG.jsonSortDepth,
+
+        jsonKeyOrders: Array.isArray(rawConfig.jsonKeyOrders)
+            ? rawConfig.jsonKeyOrders.filter(isValidJsonKeyOrder)
+            : DEFAULT_CONFIG.jsonKeyOrders,
+
+        jsonValueOrder: VALID_JSON_VALUE_ORDERS.has(rawConfig.jsonValueOrder as JsonValueOrder)
+            ? (rawConfig.jsonValueOrder as JsonValueOrder)
+            : DEFAULT_CONFIG.jsonValueOrder,
+
+        jsonSortArrays:
+            typeof rawConfig.jsonSortArrays === 'boolean'
+                ? rawConfig.jsonSortArrays
+                : DEFAULT_CONFIG.jsonSortArrays,
+
+        dedupe: validateDedupe(rawConfig.dedupe),
+
+        collapseMasks: Array.isArray(rawConfig.collapseMasks)
+            ? rawConfig.collapseMasks.filter(isValidCollapseMask)
+            : DEFAULT_CONFIG.collapseMasks,
+
+        setOperationOutput: VALID_SET_OPERATION_OUTPUTS.has(
+            rawConfig.setOperationOutput as SetOperationOutput,
+        )
+            ? (rawConfig.setOperationOutput as SetOperationOutput)
+            : DEFAULT_CONFIG.setOperationOutput,
     };
 }
 
@@ -75,7 +344,7 @@ export function validateConfigFast(rawConfig: Partial<Config>): Config {
  * @param rawConfig - Raw configuration object from VS Code
  * @returns Validation result with error messages if any
  */
-export function validateConfigWithFeedback(rawConfig: Partial<Config>): {
+export function validateConfigWithFeedback(rawConfig: RawConfig): {
     valid: boolean;
     config: Config;
     errors: string[];
@@ -107,6 +376,117 @@ export function validateConfigWithFeedback(rawConfig: Partial<Config>): {
         );
     }
 
+    // Validate sortSpecs
+    if (rawConfig.sortSpecs !== undefined) {
+        if (!Array.isArray(rawConfig.sortSpecs)) {
+            errors.push('sortSpecs must be an array');
+        } else if (!rawConfig.sortSpecs.every(isValidSortSpec)) {
+            errors.push('sortSpecs entries must have a name and a spec string');
+        }
+    }
+
+    // Validate dateOrder
+    if (
+        rawConfig.dateOrder !== undefined &&
+        !VALID_DATE_ORDERS.has(rawConfig.dateOrder as DateOrder)
+    ) {
+        errors.push(`dateOrder must be one of: ${Array.from(VALID_DATE_ORDERS).join(', ')}`);
+    }
+
+    // Validate uniqueKeep
+    if (
+        rawConfig.uniqueKeep !== undefined &&
+        !VALID_UNIQUE_KEEPS.has(rawConfig.uniqueKeep as UniqueKeep)
+    ) {
+        errors.push(`uniqueKeep must be one of: ${Array.from(VALID_UNIQUE_KEEPS).join(', ')}`);
+    }
+
+    // Validate collation
+    const collation = rawConfig.collation ?? {};
+    if (collation.locale !== undefined && !isValidLocale(collation.locale)) {
+        errors.push('collation.locale must be a BCP 47 language tag such as "en" or "sv"');
+    }
+    if (collation.sensitivity !== undefined && !VALID_SENSITIVITIES.has(collation.sensitivity)) {
+        errors.push(
+            `collation.sensitivity must be one of: ${Array.from(VALID_SENSITIVITIES).join(', ')}`,
+        );
+    }
+    if (
+        collation.ignorePunctuation !== undefined &&
+        typeof collation.ignorePunctuation !== 'boolean'
+    ) {
+        errors.push('collation.ignorePunctuation must be a boolean');
+    }
+    if (collation.caseFirst !== undefined && !VALID_CASE_FIRSTS.has(collation.caseFirst)) {
+        errors.push(
+            `collation.caseFirst must be one of: ${Array.from(VALID_CASE_FIRSTS).join(', ')}`,
+        );
+    }
+    if (collation.binary !== undefined && typeof collation.binary !== 'boolean') {
+        errors.push('collation.binary must be a boolean');
+    }
+
+    // Validate jsonSortDepth
+    if (rawConfig.jsonSortDepth !== undefined && !isValidJsonSortDepth(rawConfig.jsonSortDepth)) {
+        errors.push('jsonSortDepth must be a whole number (0 sorts every level)');
+    }
+
+    // Validate jsonKeyOrders
+    if (rawConfig.jsonKeyOrders !== undefined) {
+        if (!Array.isArray(rawConfig.jsonKeyOrders)) {
+            errors.push('jsonKeyOrders must be an array');
+        } else if (!rawConfig.jsonKeyOrders.every(isValidJsonKeyOrder)) {
+            errors.push('jsonKeyOrders entries must have a name, a files list and a keys list');
+        }
+    }
+
+    // Validate jsonValueOrder
+    if (
+        rawConfig.jsonValueOrder !== undefined &&
+        !VALID_JSON_VALUE_ORDERS.has(rawConfig.jsonValueOrder as JsonValueOrder)
+    ) {
+        errors.push(
+            `jsonValueOrder must be one of: ${Array.from(VALID_JSON_VALUE_ORDERS).join(', ')}`,
+        );
+    }
+
+    // Validate jsonSortArrays
+    if (rawConfig.jsonSortArrays !== undefined && typeof rawConfig.jsonSortArrays !== 'boolean') {
+        errors.push('jsonSortArrays must be a boolean');
+    }
+
+    // Validate dedupe
+    const dedupe = rawConfig.dedupe ?? {};
+    for (const flag of DEDUPE_FLAGS) {
+        if (dedupe[flag] !== undefined && typeof dedupe[flag] !== 'boolean') {
+            errors.push(`dedupe.${flag} must be a boolean`);
+        }
+    }
+    if (dedupe.keep !== undefined && !VALID_UNIQUE_KEEPS.has(dedupe.keep)) {
+        errors.push(`dedupe.keep must be one of: ${Array.from(VALID_UNIQUE_KEEPS).join(', ')}`);
+    }
+
+    // Validate collapseMasks
+    if (rawConfig.collapseMasks !== undefined) {
+        if (!Array.isArray(rawConfig.collapseMasks)) {
+            errors.push('collapseMasks must be an array');
+        } else if (!rawConfig.collapseMasks.every(isValidCollapseMask)) {
+            errors.push(
+                'collapseMasks entries must be timestamp, uuid, hex, number or a regular expression',
+            );
+        }
+    }
+
+    // Validate setOperationOutput
+    if (
+        rawConfig.setOperationOutput !== undefined &&
+        !VALID_SET_OPERATION_OUTPUTS.has(rawConfig.setOperationOutput as SetOperationOutput)
+    ) {
+        errors.push(
+            `setOperationOutput must be one of: ${Array.from(VALID_SET_OPERATION_OUTPUTS).join(', ')}`,
+        );
+    }
+
     return {
         valid: errors.length === 0,
         config: validateConfigFast(rawConfig),
@@ -1,6 +1,21 @@
 import * as vscode from 'vscode';
 import { CONFIG } from '../constants.js';
-import type { CleanupOnSave, Config, CssSortStrategy } from '../schemas/config.schema.js';
+import { configureCollation } from '../lib/collation.js';
+import type {
+    CleanupOnSave,
+    CollationCaseFirst,
+    CollationSensitivity,
+    Config,
+    CssSortStrategy,
+    DateOrder,
+    DedupeSettings,
+    JsonKeyOrderSetting,
+    JsonValueOrder,
+    RawConfig,
+    SetOperationOutput,
+    SortSpecSetting,
+    UniqueKeep,
+} from '../schemas/config.schema.js';
 import {
     DEFAULT_CONFIG,
     validateConfigFast,
@@ -60,27 +75,64 @@ class ConfigCache {
         );
     }
 
+    /**
+     * Read all config values at once, unvalidated
+     */
+    private readRawConfig(): RawConfig {
+        const vsConfig = vscode.workspace.getConfiguration(CONFIG.NAMESPACE);
+        return {
+            joinSeparator: vsConfig.get<string>(CONFIG.JOIN_SEPARATOR),
+            cleanupOnSave: vsConfig.get<CleanupOnSave>(CONFIG.CLEANUP_ON_SAVE),
+            cssSortStrategy: vsConfig.get<CssSortStrategy>(CONFIG.CSS_SORT_STRATEGY),
+            sortSpecs: vsConfig.get<SortSpecSetting[]>(CONFIG.SORT_SPECS),
+            dateOrder: vsConfig.get<DateOrder>(CONFIG.DATE_ORDER),
+            uniqueKeep: vsConfig.get<UniqueKeep>(CONFIG.UNIQUE_KEEP),
+            collation: {
+                locale: vsConfig.get<string>(CONFIG.COLLATION_LOCALE),
+                sensitivity: vsConfig.get<CollationSensitivity>(CONFIG.COLLATION_SENSITIVITY),
+                ignorePunctuation: vsConfig.get<boolean>(CONFIG.COLLATION_IGNORE_PUNCTUATION),
+                caseFirst: vsConfig.get<CollationCaseFirst>(CONFIG.COLLATION_CASE_FIRST),
+                binary: vsConfig.get<boolean>(CONFIG.COLLATION_BINARY),
+            },
+            jsonSortDepth: vsConfig.get<number>(CONFIG.JSON_SORT_DEPTH),
+            jsonKeyOrders: vsConfig.get<JsonKeyOrderSetting[]>(CONFIG.JSON_KEY_ORDERS),
+            jsonValueOrder: vsConfig.get<JsonValueOrder>(CONFIG.JSON_VALUE_ORDER),
+            jsonSortArrays: vsConfig.get<boolean>(CONFIG.JSON_SORT_ARRAYS),
+            dedupe: {
+                ignoreCase: vsConfig.get<boolean>(CONFIG.DEDUPE_IGNORE_CASE),
+                trim: vsConfig.get<boolean>(CONFIG.DEDUPE_TRIM),
+                collapseWhitespace: vsConfig.get<boolean>(CONFIG.DEDUPE_COLLAPSE_WHITESPACE),
+                normalizeUnicode: vsConfig.get<boolean>(CONFIG.DEDUPE_NORMALIZE_UNICODE),
+                ignorePunctuation: vsConfig.get<boolean>(CONFIG.DEDUPE_IGNORE_PUNCTUATION),
+                keep: vsConfig.get<UniqueKeep>(CONFIG.DEDUPE_KEEP),
+            },
+            collapseMasks: vsConfig.get<string[]>(CONFIG.COLLAPSE_MASKS),
+            setOperationOutput: vsConfig.get<SetOperationOutput>(CONFIG.SET_OPERATION_OUTPUT),
+        };
+    }
+
+    /**
+     * Store a validated config and apply the settings pure modules read globally
+     */
+    private setConfig(config: Config): void {
+        this.config = config;
+        configureCollation(config.collation);
+    }
+
     /**
      * Load configuration using fast native validation
      * This is PRIMARY load path - no external dependencies
      */
     private async loadConfigFast(): Promise<void> {
         try {
-            const vsConfig = vscode.workspace.getConfiguration(CONFIG.NAMESPACE);
-
-            // Read all config values at once
-            const rawConfig: Partial<Config> = {
-                joinSeparator: vsConfig.get<string>('joinSeparator'),
-                cleanupOnSave: vsConfig.get<CleanupOnSave>('cleanupOnSave'),
-                cssSortStrategy: vsConfig.get<CssSortStrategy>('cssSortStrategy'),
-            };
+            const rawConfig = this.readRawConfig();
 
             // Fast validation using native JavaScript
-            this.config = validateConfigFast(rawConfig);
+            this.setConfig(validateConfigFast(rawConfig));
             this.isInitialized = true;
         } catch {
             // Fall back to hardcoded defaults
-            this.config = { ...DEFAULT_CONFIG };
+            this.setConfig({ ...DEFAULT_CONFIG });
             this.isInitialized = true;
         }
     }
@@ -93,14 +145,7 @@ class ConfigCache {
      */
     private async loadConfigWithValidation(): Promise<void> {
         try {
-            const vsConfig = vscode.workspace.getConfiguration(CONFIG.NAMESPACE);
-
-            // Read all config values at once
-            const rawConfig: Partial<Config> = {
-                joinSeparator: vsConfig.get<string>('joinSeparator'),
-                cleanupOnSave: vsConfig.get<CleanupOnSave>('cleanupOnSave'),
-                cssSortStrategy: vsConfig.get<CssSortStrategy>('cssSortStrategy'),
-            };
+            const rawConfig = this.readRawConfig();
 
             // Comprehensive validation with feedback
             const result = validateConfigWithFeedback(rawConfig);
@@ -114,11 +159,11 @@ class ConfigCache {
                 );
             }
 
-            this.config = result.config;
+            this.setConfig(result.config);
             this.isInitialized = true;
         } catch {
             // Fall back to hardcoded defaults
-            this.config = { ...DEFAULT_CONFIG };
+            this.setConfig({ ...DEFAULT_CONFIG });
             this.isInitialized = true;
         }
     }
@@ -202,6 +247,86 @@ class ConfigCache {
         return this.get('joinSeparator', DEFAULT_CONFIG.joinSeparator);
     }
 
+    /**
+     * Get saved multi-key sort specs
+     * Pre-validated in cache for optimal performance
+     */
+    public getSortSpecs(): SortSpecSetting[] {
+        return this.get('sortSpecs', DEFAULT_CONFIG.sortSpecs);
+    }
+
+    /**
+     * Get how ambiguous numeric dates (03/04/2024) are read when sorting
+     * Pre-validated in cache for optimal performance
+     */
+    public getDateOrder(): DateOrder {
+        return this.get('dateOrder', DEFAULT_CONFIG.dateOrder);
+    }
+
+    /**
+     * Get which spelling sort-unique commands keep when duplicates collapse
+     * Pre-validated in cache for optimal performance
+     */
+    public getUniqueKeep(): UniqueKeep {
+        return this.get('uniqueKeep', DEFAULT_CONFIG.uniqueKeep);
+    }
+
+    /**
+     * Get how many levels of nested JSON objects the JSON sorts reorder (0 = all)
+     * Pre-validated in cache for optimal performance
+     */
+    public getJsonSortDepth(): number {
+        return this.get('jsonSortDepth', DEFAULT_CONFIG.jsonSortDepth);
+    }
+
+    /**
+     * Get JSON key-order profiles from settings (built-in profiles are not included)
+     * Pre-validated in cache for optimal performance
+     */
+    public getJsonKeyOrders(): JsonKeyOrderSetting[] {
+        return this.get('jsonKeyOrders', DEFAULT_CONFIG.jsonKeyOrders);
+    }
+
+    /**
+     * Get how JSON by Value compares values
+     * Pre-validated in cache for optimal performance
+     */
+    public getJsonValueOrder(): JsonValueOrder {
+        return this.get('jsonValueOrder', DEFAULT_CONFIG.jsonValueOrder);
+    }
+
+    /**
+     * Get whether JSON by Value also sorts array elements
+     * Pre-validated in cache for optimal performance
+     */
+    public getJsonSortArrays(): boolean {
+        return this.get('jsonSortArrays', DEFAULT_CONFIG.jsonSortArrays);
+    }
+
+    /**
+     * Get which differences Remove Duplicate Lines ignores and which duplicate it keeps
+     * Pre-validated in cache for optimal performance
+     */
+    public getDedupe(): DedupeSettings {
+        return this.get('dedupe', DEFAULT_CONFIG.dedupe);
+    }
+
+    /**
+     * Get the volatile-token masks Collapse Similar Lines applies before comparing
+     * Pre-validated in cache for optimal performance
+     */
+    public getCollapseMasks(): string[] {
+        return this.get('collapseMasks', DEFAULT_CONFIG.collapseMasks);
+    }
+
+    /**
+     * Get where set operations put their result
+     * Pre-validated in cache for optimal performance
+     */
+    public getSetOperationOutput(): SetOperationOutput {
+        return this.get('setOperationOutput', DEFAULT_CONFIG.setOperationOutput);
+    }
+
     /**
      * Validate all current configuration with comprehensive feedback
      * Useful for startup validation with user feedback
@@ -10,10 +10,16 @@ import {
 } from './text-utils.js';
 
 type LineProcessor = (lines: string[]) => string[] | Promise<string[]>;
-type StreamLineProcessor = (lines: Iterable<string>) => Generator<string, void, undefined>;
+export type StreamLineProcessor = (lines: Iterable<string>) => Generator<string, void, undefined>;
 
 export interface LineActionOptions {
     expandSelection?: boolean;
+    /**
+     * Streaming variant of the processor, used for large texts
+     * Needed when the processor is a closure (e.g. one binding settings), since
+     * otherwise the variant is looked up in the cleaner module by function name.
+     */
+    streamProcessor?: StreamLineProcessor;
 }
 
 /**
@@ -86,7 +92,12 @@ async function applyLineActionInternal(
 
             // Use streaming for large selections
             if (shouldUseStreaming(text)) {
-                const newText = await processTextStreaming(text, processor, eol);
+                const newText = await processTextStreaming(
+                    text,
+                    processor,
+                    eol,
+                    options.streamProcessor,
+                );
                 if (text !== newText) {
                     changes.push({ range, newText });
                     selectionChangeMap.set(selection, { range, newText });
@@ -111,7 +122,7 @@ async function applyLineActionInternal(
 
         // For very large files, use optimized processing
         if (lineCount > PERFORMANCE.LARGE_FILE_LINE_THRESHOLD || shouldUseStreaming(text)) {
-            await processLargeDocument(editor, processor, eol);
+            await processLargeDocument(editor, processor, eol, options.streamProcessor);
             return;
         }
 
@@ -202,23 +213,25 @@ async function processTextStreaming(
     text: string,
     processor: LineProcessor,
     eol: string,
+    explicitStreamProcessor?: StreamLineProcessor,
 ): Promise<string> {
-    // Check if the processor has a streaming variant
-    const processorName = processor.name;
-    let streamProcessor: StreamLineProcessor | null = null;
-
-    // Try to import streaming version dynamically
-    try {
-        const cleanerModule = await import('../lib/cleaner.js');
-        const streamFunctionName = `${processorName}Stream`;
-
-        if (streamFunctionName in cleanerModule) {
-            streamProcessor = (cleanerModule as { [key: string]: unknown })[
-                streamFunctionName
-            ] as StreamLineProcessor;
+    // Use the streaming variant passed in, or look one up by the processor's name
+    let streamProcessor: StreamLineProcessor | null = explicitStreamProcessor ?? null;
+
+    if (!streamProcessor) {
+        // Try to import streaming version dynamically
+        try {
+            const cleanerModule = await import('../lib/cleaner.js');
+            const streamFunctionName = `${processor.name}Stream`;
+
+            if (streamFunctionName in cleanerModule) {
+                streamProcessor = (cleanerModule as { [key: string]: unknown })[
+                    streamFunctionName
+                ] as StreamLineProcessor;
+            }
+        } catch {
+            // Streaming version not available, fall back to array processing
         }
-    } catch {
-        // Streaming version not available, fall back to array processing
     }
 
     if (streamProcessor) {
@@ -242,6 +255,7 @@ async function processLargeDocument(
     editor: vscode.TextEditor,
     processor: LineProcessor,
     eol: string,
+    streamProcessor?: StreamLineProcessor,
 ): Promise<void> {
     const document = editor.document;
     const lineCount = document.lineCount;
@@ -249,7 +263,7 @@ async function processLargeDocument(
 
     // Estimate if we should use streaming
     if (shouldUseStreaming(text)) {
-        const newText = await processTextStreaming(text, processor, eol);
+        const newText = await processTextStreaming(text, processor, eol, streamProcessor);
 
         // Check if anything changed
         if (text !== newText) {
@@ -0,0 +1,343 @@
+import * as vscode from 'vscode';
+import type { DedupeOptions, DuplicateKey, KeyedKeep } from '../lib/cleaner.js';
+import type { FieldDelimiter } from '../lib/fields.js';
+import type { InlineDelimiter } from '../lib/inline-sorter.js';
+import type { JsonValueOrder } from '../lib/json-sorter.js';
+import {
+    formatSortSpec,
+    parseSortSpec,
+    type KeyComparatorName,
+    type SortDirection,
+    type SortKey,
+} from '../lib/sorter.js';
+
+/**
+ * Shared quick-pick and input-box prompts for interactive commands
+ * Every prompt resolves to undefined when the user cancels
+ */
+
+interface ValueItem<T> extends vscode.QuickPickItem {
+    value: T;
+}
+
+const DELIMITER_ITEMS: Array<ValueItem<FieldDelimiter | 'regex'>> = [
+    { label: 'Comma', description: ',', value: ',' },
+    { label: 'Tab', description: '\\t', value: '\t' },
+    { label: 'Whitespace', description: 'spaces or tabs', value: 'whitespace' },
+    { label: 'Semicolon', description: ';', value: ';' },
+    { label: 'Pipe', description: '|', value: '|' },
+    { label: 'Regular Expression...', value: 'regex' },
+];
+
+const INLINE_DELIMITER_ITEMS: Array<ValueItem<InlineDelimiter>> = [
+    { label: 'Auto', description: 'comma, then pipe, then whitespace', value: 'auto' },
+    { label: 'Comma', description: ',', value: ',' },
+    { label: 'Whitespace', description: 'spaces or tabs', value: 'whitespace' },
+    { label: 'Pipe', description: '|', value: '|' },
+];
+
+const JSON_VALUE_ORDER_ITEMS: Array<ValueItem<JsonValueOrder>> = [
+    { label: 'Text', description: 'strings by contents, other values as JSON', value: 'text' },
+    { label: 'Typed', description: 'numbers numerically, then strings, null last', value: 'typed' },
+    { label: 'Natural', description: 'item2 before item10', value: 'natural' },
+];
+
+const JSON_ARRAY_ITEMS: Array<ValueItem<'keep' | 'sort' | 'keyPath'>> = [
+    { label: 'Leave Arrays As They Are', value: 'keep' },
+    { label: 'Sort Array Elements', value: 'sort' },
+    { label: 'Sort Arrays of Objects by Key Path...', value: 'keyPath' },
+];
+
+type DedupeFlag = Exclude<keyof DedupeOptions, 'keep'>;
+
+const DEDUPE_FLAG_ITEMS: Array<ValueItem<DedupeFlag>> = [
+    { label: 'Ignore Case', value: 'ignoreCase' },
+    { label: 'Ignore Leading / Trailing Whitespace', value: 'trim' },
+    { label: 'Collapse Internal Whitespace', value: 'collapseWhitespace' },
+    {
+        label: 'Normalize Unicode (NFKC)',
+        description: 'full-width letters, ligatures',
+        value: 'normalizeUnicode',
+    },
+    { label: 'Ignore Punctuation', value: 'ignorePunctuation' },
+];
+
+const KEEP_ITEMS: Array<ValueItem<DedupeOptions['keep']>> = [
+    { label: 'Keep First', description: 'of each set of duplicates', value: 'first' },
+    { label: 'Keep Last', description: 'of each set of duplicates', value: 'last' },
+];
+
+const DUPLICATE_KEY_ITEMS: Array<ValueItem<'column' | 'regex'>> = [
+    { label: 'Column', description: 'CSV, TSV or other delimited column', value: 'column' },
+    {
+        label: 'Regular Expression...',
+        description: 'first capture group, or the whole match',
+        value: 'regex',
+    },
+];
+
+const KEYED_KEEP_ITEMS: Array<ValueItem<KeyedKeep>> = [
+    { label: 'Keep First', value: 'first' },
+    { label: 'Keep Last', value: 'last' },
+    { label: 'Keep Largest Value...', description: 'in another column', value: 'max' },
+    { label: 'Keep Smallest Value...', description: 'in another column', value: 'min' },
+];
+
+const WORD_AND_PATH_ITEMS: Array<ValueItem<KeyComparatorName>> = [
+    { label: 'Word Count', value: 'words' },
+    { label: 'Last Word', value: 'lastword' },
+    { label: 'File Extension', description: 'then by path', value: 'extension' },
+    {
+        label: 'Basename',
+        description: 'file or folder name without its directory',
+        value: 'basename',
+    },
+    { label: 'Directory Depth', description: 'number of parent folders', value: 'depth' },
+];
+
+const COMPARATOR_ITEMS: Array<ValueItem<KeyComparatorName>> = [
+    { label: 'Natural', description: 'A2 before A10', value: 'natural' },
+    { label: 'Case Sensitive', value: 'string' },
+    { label: 'Case Insensitive', value: 'insensitive' },
+    { label: 'Numeric', description: 'compare as numbers', value: 'numeric' },
+    { label: 'Length', value: 'length' },
+    { label: 'IP Address', value: 'ip' },
+    { label: 'Semantic Version', description: '1.0.0-beta before 1.0.0', value: 'semver' },
+    { label: 'Date / Time', description: 'ISO 8601, RFC 2822, dd/mm/yyyy, epoch', value: 'date' },
+    ...WORD_AND_PATH_ITEMS,
+];
+
+const DIRECTION_ITEMS: Array<ValueItem<SortDirection>> = [
+    { label: 'Ascending', value: 'asc' },
+    { label: 'Descending', value: 'desc' },
+];
+
+/**
+ * Validates a regular expression typed into an input box
+ * Returns an error message, or undefined when the pattern is valid
+ */
+export function validateRegex(value: string): string | undefined {
+    if (value.length === 0) {
+        return 'Enter a regular expression';
+    }
+    try {
+        new RegExp(value);
+        return undefined;
+    } catch (e) {
+        return e instanceof Error ? e.message : 'Invalid regular expression';
+    }
+}
+
+async function pickValue<T>(
+    items: Array<ValueItem<T>>,
+    placeHolder: string,
+): Promise<T | undefined> {
+    const picked = await vscode.window.showQuickPick(items, { placeHolder });
+    return picked?.value;
+}
+
+/**
+ * Ask for a field delimiter, including a custom regular expression
+ */
+export async function pickDelimiter(): Promise<FieldDelimiter | undefined> {
+    const picked = await pickValue(DELIMITER_ITEMS, 'Select the field delimiter');
+    if (picked !== 'regex') {
+        return picked;
+    }
+    const pattern = await vscode.window.showInputBox({
+        prompt: 'Enter a regular expression that separates fields',
+        placeHolder: 'e.g. \\s*[,;]\\s*',
+        validateInput: validateRegex,
+    });
+    return pattern === undefined ? undefined : new RegExp(pattern);
+}
+
+async function promptPositiveInteger(
+    prompt: string,
+    value: string,
+    invalidMessage: string,
+): Promise<number | undefined> {
+    const input = await vscode.window.showInputBox({
+        prompt,
+        value,
+        validateInput: (text) => (/^[1-9]\d*$/.test(text.trim()) ? undefined : invalidMessage),
+    });
+    return input === undefined ? undefined : parseInt(input.trim(), 10);
+}
+
+/**
+ * Ask how the items within a line are separated
+ */
+export function pickInlineDelimiter(): Promise<InlineDelimiter | undefined> {
+    return pickValue(INLINE_DELIMITER_ITEMS, 'Select how items in the line are separated');
+}
+
+/**
+ * Ask for a 1-based column index
+ */
+export function promptColumn(
+    prompt = 'Enter the column number to use',
+): Promise<number | undefined> {
+    return promptPositiveInteger(prompt, '1', 'Enter a column number (1 or more)');
+}
+
+/**
+ * Ask for how many items to use
+ */
+export function promptCount(prompt: string): Promise<number | undefined> {
+    return promptPositiveInteger(prompt, '', 'Enter a whole number (1 or more)');
+}
+
+/**
+ * Ask for a random seed, offering the last one used
+ * An empty answer resolves to '' (meaning: generate a new seed)
+ */
+export async function promptSeed(lastSeed: string | undefined): Promise<string | undefined> {
+    return await vscode.window.showInputBox({
+        prompt: 'Enter a seed to shuffle reproducibly, or leave empty for a new random seed',
+        value: lastSeed ?? '',
+        placeHolder: 'any text, e.g. fixtures-2024',
+    });
+}
+
+/**
+ * Ask how extracted keys should be compared
+ */
+export function pickComparator(): Promise<KeyComparatorName | undefined> {
+    return pickValue(COMPARATOR_ITEMS, 'Select how values are compared');
+}
+
+/**
+ * Ask how JSON values are compared
+ */
+export function pickJsonValueOrder(): Promise<JsonValueOrder | undefined> {
+    return pickValue(JSON_VALUE_ORDER_ITEMS, 'Select how values are compared');
+}
+
+/**
+ * Ask whether JSON arrays are sorted too, and by which key path for arrays of objects
+ */
+export async function pickJsonArraySort(): Promise<
+    { sortArrays: boolean; arrayKeyPath?: string } | undefined
+> {
+    const picked = await pickValue(JSON_ARRAY_ITEMS, 'Select what happens to arrays');
+    if (picked !== 'keyPath') {
+        return picked === undefined ? undefined : { sortArrays: picked === 'sort' };
+    }
+    const arrayKeyPath = await vscode.window.showInputBox({
+        prompt: 'Enter the key path that orders arrays of objects',
+        placeHolder: 'e.g. name or meta.id',
+        validateInput: (text) => (text.trim().length > 0 ? undefined : 'Enter a key path'),
+    });
+    return arrayKeyPath === undefined
+        ? undefined
+        : { sortArrays: true, arrayKeyPath: arrayKeyPath.trim() };
+}
+
+/**
+ * Ask which differences to ignore when removing duplicates, and which line to keep
+ * The current settings are preselected.
+ */
+export async function pickDedupeOptions(
+    defaults: DedupeOptions,
+): Promise<DedupeOptions | undefined> {
+    const flags = await vscode.window.showQuickPick(
+        DEDUPE_FLAG_ITEMS.map((item) => ({ ...item, picked: defaults[item.value] })),
+        { placeHolder: 'Select the differences to ignore', canPickMany: true },
+    );
+    if (!flags) return undefined;
+    const keep = await pickValue(KEEP_ITEMS, 'Select which duplicate to keep');
+    if (keep === undefined) return undefined;
+
+    const options: DedupeOptions = { ...defaults, keep };
+    for (const item of DEDUPE_FLAG_ITEMS) {
+        options[item.value] = flags.some((flag) => flag.value === item.value);
+    }
+    return options;
+}
+
+/**
+ * Ask what makes two lines duplicates: a column or a regular expression capture
+ */
+export async function pickDuplicateKey(): Promise<DuplicateKey | undefined> {
+    const picked = await pickValue(DUPLICATE_KEY_ITEMS, 'Select what makes lines duplicates');
+    if (picked === 'regex') {
+        const source = await vscode.window.showInputBox({
+            prompt: 'Enter a regular expression; lines with the same first capture group are duplicates',
+            placeHolder: 'e.g. id=(\\d+)',
+            validateInput: validateRegex,
+        });
+        return source === undefined ? undefined : { pattern: new RegExp(source) };
+    }
+    if (picked === undefined) return undefined;
+
+    const delimiter = await pickDelimiter();
+    if (delimiter === undefined) return undefined;
+    const column = await promptColumn('Enter the number of the key column');
+    return column === undefined ? undefined : { delimiter, column };
+}
+
+/**
+ * Ask which line of each set of lines sharing a key to keep
+ */
+export function pickKeyedKeep(): Promise<KeyedKeep | undefined> {
+    return pickValue(KEYED_KEEP_ITEMS, 'Select which line to keep');
+}
+
+/**
+ * Ask for a word or path key (word count, last word, extension, basename, depth)
+ */
+export function pickWordOrPathKey(): Promise<KeyComparatorName | undefined> {
+    return pickValue(WORD_AND_PATH_ITEMS, 'Select what to sort by');
+}
+
+/**
+ * Ask for the sort direction
+ */
+export function pickDirection(): Promise<SortDirection | undefined> {
+    return pickValue(DIRECTION_ITEMS, 'Select the sort direction');
+}
+
+/**
+ * Build multi-key sort keys one at a time (column, comparator, direction)
+ */
+export async function promptSortKeys(): Promise<SortKey[] | undefined> {
+    const keys: SortKey[] = [];
+    const nextItems: Array<ValueItem<boolean>> = [
+        { label: 'Sort Now', value: false },
+        { label: 'Add Another Key...', value: true },
+    ];
+
+    while (true) {
+        const column = await promptColumn(`Sort key ${keys.length + 1}: enter the column number`);
+        if (column === undefined) return undefined;
+        const comparator = await pickComparator();
+        if (comparator === undefined) return undefined;
+        const direction = await pickDirection();
+        if (direction === undefined) return undefined;
+        keys.push({ column, comparator, direction });
+
+        const addAnother = await pickValue(nextItems, `Sort keys: ${formatSortSpec(keys)}`);
+        if (addAnother === undefined) return undefined;
+        if (!addAnother) return keys;
+    }
+}
+
+/**
+ * Ask for multi-key sort keys written as a spec string
+ */
+export async function promptSortSpec(): Promise<SortKey[] | undefined> {
+    const value = await vscode.window.showInputBox({
+        prompt: 'Enter sort keys as column[:comparator][:direction], separated by commas',
+        placeHolder: '2:natural:asc,1:insensitive:desc',
+        validateInput: (input) => {
+            try {
+                parseSortSpec(input);
+                return undefined;
+            } catch (e) {
+                return e instanceof Error ? e.message : 'Invalid sort spec';
+            }
+        },
+    });
+    return value === undefined ? undefined : parseSortSpec(value);
+}